@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { MAX_ATTEMPTS, isOutboxAdminEnabled, resendOutboxEmail, verifyOutboxAdminToken } from '@/lib/email-outbox'
+import type { OutboxEmail, OutboxStatus } from '@/lib/email-outbox'
+import { html } from '@/lib/email-template'
+import type { SafeHtml } from '@/lib/email-template'
+
+// The email delivery log: failed deliveries, each with a Resend button, then
+// the most recent messages. Linked from the admin's job-posted emails.
+
+const RECENT_LIMIT = 100
+// Failed messages stay failed until resent, so only the newest are listed
+const FAILED_LIMIT = 100
+
+const STATUS_STYLES: Record<OutboxStatus, { label: string; color: string; bg: string }> = {
+  pending: { label: 'Retrying', color: '#92400e', bg: '#fffbeb' },
+  sending: { label: 'Sending', color: '#1d4ed8', bg: '#eff6ff' },
+  sent: { label: 'Sent', color: '#15803d', bg: '#f0fdf4' },
+  failed: { label: 'Failed', color: '#dc2626', bg: '#fef2f2' },
+}
+
+function adminSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+}
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url)
+  const token = searchParams.get('token')
+  const expires = searchParams.get('expires')
+
+  if (!isOutboxAdminEnabled()) {
+    return htmlResponse(errorCard('The delivery log is disabled until ADMIN_SECRET is set.'), 503)
+  }
+  if (!verifyOutboxAdminToken(token, expires)) {
+    return htmlResponse(errorCard('Invalid or expired token.'), 403)
+  }
+
+  const supabase = adminSupabase()
+  const [failed, recent] = await Promise.all([
+    supabase
+      .from('email_outbox')
+      .select('*', { count: 'exact' })
+      .eq('status', 'failed')
+      .order('created_at', { ascending: false })
+      .limit(FAILED_LIMIT),
+    supabase
+      .from('email_outbox')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_LIMIT),
+  ])
+
+  const error = failed.error || recent.error
+  if (error) {
+    return htmlResponse(errorCard(`Database error: ${error.message}`), 500)
+  }
+
+  const resent = searchParams.get('resent')
+  const failedEmails = (failed.data || []) as OutboxEmail[]
+  const recentEmails = (recent.data || []) as OutboxEmail[]
+
+  return htmlResponse(html`
+    <h1>Email delivery log</h1>
+    ${resent ? html`<p class="flash">${resent === 'sent' ? 'The email was resent.' : 'The email could not be resent — see its latest error below.'}</p>` : ''}
+
+    <h2>Failed (${failed.count ?? failedEmails.length})</h2>
+    ${failedEmails.length < (failed.count ?? 0) ? html`<p class="hint">Showing the newest ${failedEmails.length}.</p>` : ''}
+    <p class="hint">Gave up after ${MAX_ATTEMPTS} attempts. Resending starts a fresh set of retries.</p>
+    ${failedEmails.length
+      ? emailTable(failedEmails, email => html`
+          <form method="post">
+            <input type="hidden" name="id" value="${email.id}">
+            <input type="hidden" name="token" value="${token}">
+            <input type="hidden" name="expires" value="${expires}">
+            <button type="submit">Resend</button>
+          </form>`)
+      : html`<p class="empty">No failed deliveries.</p>`}
+
+    <h2>Recent</h2>
+    ${recentEmails.length ? emailTable(recentEmails) : html`<p class="empty">No emails yet.</p>`}`)
+}
+
+export async function POST(req: NextRequest) {
+  if (!isOutboxAdminEnabled()) {
+    return htmlResponse(errorCard('The delivery log is disabled until ADMIN_SECRET is set.'), 503)
+  }
+
+  const form = await req.formData().catch(() => null)
+  if (!form) {
+    return htmlResponse(errorCard('Invalid request — expected a form.'), 400)
+  }
+  const id = form.get('id')
+  const token = form.get('token')
+  const expires = form.get('expires')
+  if (typeof token !== 'string' || typeof expires !== 'string' || !verifyOutboxAdminToken(token, expires)) {
+    return htmlResponse(errorCard('Invalid or expired token.'), 403)
+  }
+  if (typeof id !== 'string' || !id) {
+    return htmlResponse(errorCard('Invalid request — missing email id.'), 400)
+  }
+
+  const status = await resendOutboxEmail(adminSupabase(), id)
+  const back = new URL('/api/admin/email-outbox', req.url)
+  back.searchParams.set('expires', expires)
+  back.searchParams.set('token', token)
+  // null when the email was no longer failed, e.g. resent in another tab
+  if (status) back.searchParams.set('resent', status)
+
+  return NextResponse.redirect(back, 303)
+}
+
+function emailTable(emails: OutboxEmail[], action?: (email: OutboxEmail) => SafeHtml): SafeHtml {
+  return html`
+    <table>
+      <tr>
+        <th>Queued</th><th>To</th><th>Subject</th><th>Status</th><th>Attempts</th><th>Last error</th>${action ? html`<th></th>` : ''}
+      </tr>
+      ${emails.map(email => {
+        const style = STATUS_STYLES[email.status]
+        return html`
+      <tr>
+        <td class="nowrap">${formatDate(email.created_at)}</td>
+        <td>${email.to_addresses.join(', ')}</td>
+        <td>${email.subject}</td>
+        <td><span class="status" style="color:${style.color};background:${style.bg};">${style.label}</span>${email.sent_at ? html`<div class="hint nowrap">${formatDate(email.sent_at)}</div>` : ''}</td>
+        <td>${email.attempts}</td>
+        <td class="error">${email.last_error || '—'}</td>
+        ${action ? html`<td>${action(email)}</td>` : ''}
+      </tr>`
+      })}
+    </table>`
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Europe/London' })
+}
+
+function errorCard(message: string): SafeHtml {
+  return html`<h1>Error</h1><p>${message}</p>`
+}
+
+function htmlResponse(content: SafeHtml, status = 200) {
+  return new NextResponse(
+    html`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Email delivery log — OsteoJob</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; margin: 0; padding: 32px 16px; background: #f3f4f6; color: #111827; }
+    .card { background: white; border-radius: 20px; padding: 32px; max-width: 1200px; margin: 0 auto; box-shadow: 0 4px 24px rgba(0,0,0,0.10); }
+    h1 { margin: 0 0 20px; font-size: 24px; }
+    h2 { margin: 32px 0 6px; font-size: 18px; }
+    p { color: #6b7280; font-size: 15px; }
+    .hint { font-size: 12px; color: #9ca3af; margin: 0 0 12px; }
+    .flash { background: #eff6ff; border: 1px solid #bfdbfe; color: #1d4ed8; border-radius: 8px; padding: 12px 16px; }
+    .empty { font-size: 14px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th { text-align: left; color: #6b7280; font-size: 11px; text-transform: uppercase; letter-spacing: 0.8px; padding: 8px; border-bottom: 1px solid #e5e7eb; }
+    td { padding: 10px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+    .nowrap { white-space: nowrap; }
+    .error { color: #dc2626; max-width: 320px; word-break: break-word; }
+    .status { display: inline-block; padding: 2px 10px; border-radius: 999px; font-weight: bold; font-size: 12px; }
+    button { background: #2563eb; color: white; border: 0; padding: 8px 16px; border-radius: 8px; font-weight: bold; cursor: pointer; }
+    button:hover { background: #1d4ed8; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    ${content}
+  </div>
+</body>
+</html>`.value,
+    { status, headers: { 'Content-Type': 'text/html' } }
+  )
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { isEmployerStatus, notifiesCandidate } from '@/lib/applications'
+import { isEmailConfigured } from '@/lib/email'
+import { queueEmail } from '@/lib/email-outbox'
+import { MAX_STATUS_MESSAGE_LENGTH, statusEmail } from '@/lib/application-status-email'
+
+const MAX_NOTE_LENGTH = 2000
+
+// Employer moves an application to a new status and/or updates their private
+// note. The status history row is written by a database trigger. The
+// candidate is emailed about the new status, with the employer's optional
+// message, unless they turned application updates off.
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+  const { status, employer_notes, message } = body
+
+  if (!isEmployerStatus(status)) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+  }
+  if (employer_notes !== undefined && employer_notes !== null && typeof employer_notes !== 'string') {
+    return NextResponse.json({ error: 'Invalid note' }, { status: 400 })
+  }
+  if (typeof employer_notes === 'string' && employer_notes.length > MAX_NOTE_LENGTH) {
+    return NextResponse.json({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` }, { status: 400 })
+  }
+
+  if (message !== undefined && message !== null && typeof message !== 'string') {
+    return NextResponse.json({ error: 'Invalid message' }, { status: 400 })
+  }
+  if (typeof message === 'string' && message.length > MAX_STATUS_MESSAGE_LENGTH) {
+    return NextResponse.json({ error: `Messages are limited to ${MAX_STATUS_MESSAGE_LENGTH} characters` }, { status: 400 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: application } = await adminSupabase
+    .from('applications')
+    .select(`
+      id, status, applicant_name, applicant_email,
+      candidate:profiles!candidate_id(email_application_updates),
+      job:jobs(id, title, employer_id, employer:profiles!employer_id(company_name))
+    `)
+    .eq('id', id)
+    .maybeSingle()
+
+  const job = Array.isArray(application?.job) ? application.job[0] : application?.job
+  if (!application || job?.employer_id !== user.id) {
+    return NextResponse.json({ error: 'Application not found' }, { status: 404 })
+  }
+  if (application.status === 'withdrawn') {
+    return NextResponse.json({ error: 'The candidate has withdrawn this application' }, { status: 409 })
+  }
+
+  const updates: Record<string, string | null> = { status, updated_at: new Date().toISOString() }
+  if (employer_notes !== undefined) {
+    updates.employer_notes = employer_notes?.trim() || null
+  }
+
+  // The candidate may withdraw between the read above and this write
+  const { data: updated, error: updateError } = await adminSupabase
+    .from('applications')
+    .update(updates)
+    .eq('id', id)
+    .neq('status', 'withdrawn')
+    .select('status, employer_notes')
+    .maybeSingle()
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+  if (!updated) {
+    return NextResponse.json({ error: 'The candidate has withdrawn this application' }, { status: 409 })
+  }
+
+  let emailed = false
+  if (status !== application.status && notifiesCandidate(status) && isEmailConfigured()) {
+    const candidate = Array.isArray(application.candidate) ? application.candidate[0] : application.candidate
+    const employer = Array.isArray(job.employer) ? job.employer[0] : job.employer
+
+    if (candidate?.email_application_updates !== false) {
+      try {
+        await queueEmail(adminSupabase, {
+          to: application.applicant_email,
+          ...statusEmail({
+            status,
+            candidateName: application.applicant_name,
+            jobTitle: job.title,
+            jobId: job.id,
+            companyName: employer?.company_name ?? null,
+            message,
+          }),
+        })
+        emailed = true
+      } catch (err) {
+        // The status change stands even if the email can't be queued
+        console.error('application status email error:', err)
+      }
+    }
+  }
+
+  const { data: history } = await adminSupabase
+    .from('application_status_history')
+    .select('*')
+    .eq('application_id', id)
+    .order('changed_at', { ascending: true })
+
+  return NextResponse.json({ ...updated, status_history: history || [], emailed })
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { isEmailConfigured } from '@/lib/email'
+import { queueEmail } from '@/lib/email-outbox'
+import { withdrawnEmail } from '@/lib/application-status-email'
+
+// Candidate withdraws their own application. The row is kept (greyed out for
+// the employer, left out of jobs.application_count) and the employer is emailed.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: application } = await adminSupabase
+    .from('applications')
+    .select('id, status, candidate_id, applicant_name, job:jobs(id, title, employer:profiles!employer_id(email))')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!application || application.candidate_id !== user.id) {
+    return NextResponse.json({ error: 'Application not found' }, { status: 404 })
+  }
+  if (application.status === 'withdrawn') {
+    return NextResponse.json({ error: 'This application has already been withdrawn' }, { status: 409 })
+  }
+
+  const { error: updateError } = await adminSupabase
+    .from('applications')
+    .update({ status: 'withdrawn', updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (updateError) {
+    return NextResponse.json({ error: updateError.message }, { status: 500 })
+  }
+
+  const job = Array.isArray(application.job) ? application.job[0] : application.job
+  const employer = Array.isArray(job?.employer) ? job.employer[0] : job?.employer
+
+  if (job && employer?.email && isEmailConfigured()) {
+    try {
+      await queueEmail(adminSupabase, {
+        to: employer.email,
+        ...withdrawnEmail({ candidateName: application.applicant_name, jobTitle: job.title, jobId: job.id }),
+      })
+    } catch (err) {
+      // The withdrawal stands even if the email can't be queued
+      console.error('application withdrawn email error:', err)
+    }
+  }
+
+  const { data: history } = await adminSupabase
+    .from('application_status_history')
+    .select('*')
+    .eq('application_id', id)
+    .order('changed_at', { ascending: true })
+
+  return NextResponse.json({ status: 'withdrawn', status_history: history || [] })
+}
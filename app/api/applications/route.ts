@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { DUPLICATE_APPLICATION_CODE } from '@/lib/applications'
+import { applicationFieldErrors, applicationFormSchema } from '@/lib/application-form'
+import type { ApplicationFieldErrors } from '@/lib/application-form'
+import { screeningAnswersError, screeningAnswersToColumn } from '@/lib/screening'
+import type { ScreeningQuestion } from '@/lib/screening'
+import { isEmailConfigured } from '@/lib/email'
+import { queueEmail } from '@/lib/email-outbox'
+import { newApplicationEmail } from '@/lib/application-email'
+import { CV_BUCKET } from '@/lib/cv'
+
+function invalid(fieldErrors: ApplicationFieldErrors) {
+  return NextResponse.json({ error: 'Please check the highlighted fields', fieldErrors }, { status: 422 })
+}
+
+// The signed-in candidate applies for a job. The form is validated against
+// the schema the browser uses and the job's screening questions, the job
+// must still be open, and the employer is emailed once the application is
+// saved. Field problems come back as { error, fieldErrors }; a second
+// application to the same job is a 409.
+export async function POST(req: NextRequest) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Please sign in to apply' }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const parsed = applicationFormSchema.safeParse(body)
+  if (!parsed.success) {
+    return invalid(applicationFieldErrors(parsed.error))
+  }
+  const form = parsed.data
+
+  // Saved CVs and new uploads are both named after the candidate
+  if (!form.cvPath.startsWith(`${user.id}-`)) {
+    return invalid({ cvPath: 'Please upload your CV again' })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  // The name only says whose CV it would be: the employer's "View CV" link
+  // and the candidate's default CV need the file itself
+  try {
+    const { data: cvExists } = await adminSupabase.storage.from(CV_BUCKET).exists(form.cvPath)
+    if (!cvExists) {
+      return invalid({ cvPath: 'Please upload your CV again' })
+    }
+  } catch (err) {
+    console.error('CV lookup error:', err)
+    return NextResponse.json({ error: 'Could not check your CV — please try again' }, { status: 500 })
+  }
+
+  const { data: job } = await adminSupabase
+    .from('jobs')
+    .select('id, title, status, screening_questions, employer:profiles!employer_id(email)')
+    .eq('id', form.jobId)
+    .maybeSingle()
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+  if (job.status !== 'active') {
+    return NextResponse.json({ error: 'This job is no longer accepting applications' }, { status: 409 })
+  }
+
+  const questions: ScreeningQuestion[] = job.screening_questions || []
+  const screeningError = screeningAnswersError(questions, form.screeningAnswers)
+  if (screeningError) {
+    return invalid({ screeningAnswers: screeningError })
+  }
+  const answers = screeningAnswersToColumn(questions, form.screeningAnswers)
+
+  const { data: application, error: insertError } = await adminSupabase
+    .from('applications')
+    .insert({
+      job_id: job.id,
+      candidate_id: user.id,
+      applicant_name: form.name,
+      applicant_email: form.email,
+      applicant_phone: form.phone || null,
+      cover_letter: form.coverLetter,
+      cv_url: form.cvPath,
+      screening_answers: answers,
+      status: 'pending',
+    })
+    .select('id, status, applied_at')
+    .single()
+
+  if (insertError?.code === DUPLICATE_APPLICATION_CODE) {
+    return NextResponse.json({ error: 'You have already applied for this job', duplicate: true }, { status: 409 })
+  }
+  if (insertError) {
+    return NextResponse.json({ error: insertError.message }, { status: 500 })
+  }
+
+  if (form.saveAsDefaultCv) {
+    const { error: profileError } = await adminSupabase
+      .from('profiles')
+      .update({ cv_url: form.cvPath })
+      .eq('id', user.id)
+    if (profileError) console.error('default CV update error:', profileError)
+  }
+
+  const employer = Array.isArray(job.employer) ? job.employer[0] : job.employer
+  if (employer?.email && isEmailConfigured()) {
+    try {
+      await queueEmail(adminSupabase, {
+        to: employer.email,
+        replyTo: form.email,
+        ...newApplicationEmail({
+          jobTitle: job.title,
+          jobId: job.id,
+          applicantName: form.name,
+          applicantEmail: form.email,
+          applicantPhone: form.phone,
+          coverLetter: form.coverLetter,
+          answers,
+        }),
+      })
+    } catch (err) {
+      // The application stands even if the email can't be queued
+      console.error('new application email error:', err)
+    }
+  }
+
+  return NextResponse.json({ application }, { status: 201 })
+}
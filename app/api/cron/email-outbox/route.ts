@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { isEmailConfigured } from '@/lib/email'
+import { processOutbox } from '@/lib/email-outbox'
+
+// Runs every 10 minutes (see vercel.json) and retries queued emails whose
+// last attempt failed, backing off between attempts.
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isEmailConfigured()) {
+    return NextResponse.json({ skipped: true, reason: 'Email not configured' })
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  try {
+    return NextResponse.json(await processOutbox(supabase))
+  } catch (err) {
+    console.error('email-outbox cron error:', err)
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Outbox failed' }, { status: 500 })
+  }
+}
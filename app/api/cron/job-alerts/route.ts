@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { isEmailConfigured } from '@/lib/email'
+import { isLinkSigningEnabled } from '@/lib/link-tokens'
+import { queueEmail } from '@/lib/email-outbox'
+import { isAlertDue } from '@/lib/job-alerts'
+import { alertUnsubscribeUrl, digestEmail, findAlertMatches } from '@/lib/job-alert-digest'
+import type { JobAlert } from '@/lib/supabase'
+
+type AlertWithCandidate = JobAlert & {
+  candidate: { email: string; full_name: string | null } | null
+}
+
+// Runs daily (see vercel.json). Each due alert gets a digest of jobs that
+// went live since its last digest; alerts with nothing new just move on.
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isEmailConfigured()) {
+    return NextResponse.json({ skipped: true, reason: 'Email not configured' })
+  }
+  // Every digest carries a signed unsubscribe link
+  if (!isLinkSigningEnabled()) {
+    return NextResponse.json({ skipped: true, reason: 'ADMIN_SECRET not set' })
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: alerts, error } = await supabase
+    .from('job_alerts')
+    .select('*, candidate:profiles!candidate_id(email, full_name)')
+
+  if (error) {
+    console.error('job-alerts cron error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const now = new Date()
+  let queued = 0
+  let failed = 0
+
+  for (const alert of (alerts || []) as AlertWithCandidate[]) {
+    if (!alert.candidate?.email || !isAlertDue(alert, now)) continue
+
+    try {
+      const { jobs, total } = await findAlertMatches(supabase, alert, alert.last_sent_at ?? alert.created_at)
+
+      if (jobs.length > 0) {
+        const unsubscribeUrl = alertUnsubscribeUrl(alert.id)
+        await queueEmail(supabase, {
+          to: alert.candidate.email,
+          ...digestEmail(alert, alert.candidate.full_name, jobs, total),
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        })
+        queued++
+      }
+
+      // Only advance the window once the digest is queued; the outbox retries failed sends
+      await supabase
+        .from('job_alerts')
+        .update({ last_sent_at: now.toISOString() })
+        .eq('id', alert.id)
+    } catch (err) {
+      failed++
+      console.error(`job-alerts cron: alert ${alert.id} failed:`, err)
+    }
+  }
+
+  return NextResponse.json({ checked: alerts?.length || 0, queued, failed })
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { CV_BUCKET, CV_MAX_BYTES, CV_STAGING_FOLDER, CV_URL_TTL_SECONDS } from '@/lib/cv'
+import { CV_CONTENT_TYPES, inspectCv } from '@/lib/cv-validation'
+
+// A short-lived signed URL for a CV. Candidates can open their own CVs
+// (uploads are named after the candidate); employers can open CVs sent with
+// applications to their jobs.
+export async function GET(req: NextRequest) {
+  const path = req.nextUrl.searchParams.get('path')
+  if (!path) {
+    return NextResponse.json({ error: 'Missing CV path' }, { status: 400 })
+  }
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  if (!path.startsWith(`${user.id}-`)) {
+    const { data: applications } = await adminSupabase
+      .from('applications')
+      .select('id, job:jobs!inner(employer_id)')
+      .eq('cv_url', path)
+      .eq('job.employer_id', user.id)
+      .limit(1)
+
+    // Same response whether the CV doesn't exist or isn't theirs
+    if (!applications?.length) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 })
+    }
+  }
+
+  const { data, error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .createSignedUrl(path, CV_URL_TTL_SECONDS)
+
+  if (error || !data) {
+    return NextResponse.json({ error: 'CV not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ url: data.signedUrl }, { headers: { 'Cache-Control': 'no-store' } })
+}
+
+// Step two of a CV upload (see ./upload-url): checks what's really in the
+// staged file and stores it as <candidate id>-<timestamp>.<ext>, with the
+// extension of the detected format whatever the file was called. The staged
+// copy is removed either way. Takes { upload } and returns { path }.
+export async function POST(req: NextRequest) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { upload } = await req.json().catch(() => ({}))
+  if (typeof upload !== 'string' || !upload.startsWith(`${CV_STAGING_FOLDER}/${user.id}-`) || upload.includes('..')) {
+    return NextResponse.json({ error: 'Invalid upload' }, { status: 400 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+  const bucket = adminSupabase.storage.from(CV_BUCKET)
+
+  try {
+    const { data: file, error: downloadError } = await bucket.download(upload)
+    if (downloadError || !file || file.size === 0) {
+      return NextResponse.json({ error: 'Please choose a CV to upload' }, { status: 400 })
+    }
+    if (file.size > CV_MAX_BYTES) {
+      return NextResponse.json({ error: 'CV must be 5MB or smaller' }, { status: 413 })
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const { format, error: formatError } = inspectCv(bytes)
+    if (!format) {
+      return NextResponse.json({ error: formatError }, { status: 422 })
+    }
+
+    const path = `${user.id}-${Date.now()}.${format}`
+    const { error: uploadError } = await bucket.upload(path, bytes, { contentType: CV_CONTENT_TYPES[format] })
+
+    if (uploadError) {
+      return NextResponse.json({ error: `CV upload failed: ${uploadError.message}` }, { status: 500 })
+    }
+
+    return NextResponse.json({ path })
+  } finally {
+    await bucket.remove([upload])
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { CV_BUCKET, CV_STAGING_FOLDER } from '@/lib/cv'
+
+// Step one of a CV upload: a signed URL the browser uploads the file to
+// directly, so CVs never pass through a serverless function (Vercel caps
+// request bodies at 4.5MB). The file lands in a staging folder candidates
+// can't read; POST /api/cvs checks it and moves it into place. Returns
+// { path, token } for supabase.storage.uploadToSignedUrl().
+export async function POST(req: NextRequest) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data, error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .createSignedUploadUrl(`${CV_STAGING_FOLDER}/${user.id}-${Date.now()}`)
+
+  if (error || !data) {
+    return NextResponse.json({ error: `CV upload failed: ${error?.message}` }, { status: 500 })
+  }
+
+  return NextResponse.json({ path: data.path, token: data.token }, { headers: { 'Cache-Control': 'no-store' } })
+}
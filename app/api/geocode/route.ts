@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { cachedGeocoder } from '@/lib/geocoding-cache'
+
+// Coordinates for a job location, used by the post and edit job forms.
+// Responds with nulls when the city can't be placed. Only employers can
+// call it, so it can't be used as an open proxy to a network geocoder.
+export async function GET(req: NextRequest) {
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: profile } = await adminSupabase
+    .from('profiles')
+    .select('user_type')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (profile?.user_type !== 'employer') {
+    return NextResponse.json({ error: 'Only employers can look up job locations' }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(req.url)
+  const city = searchParams.get('city')
+  const country = searchParams.get('country')
+
+  if (!city && !country) {
+    return NextResponse.json({ error: 'Missing city or country' }, { status: 400 })
+  }
+
+  const coordinates = await cachedGeocoder().geocode({ city, country })
+  return NextResponse.json({
+    latitude: coordinates?.latitude ?? null,
+    longitude: coordinates?.longitude ?? null,
+  })
+}
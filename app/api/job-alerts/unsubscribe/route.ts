@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { verifyAlertUnsubscribeToken } from '@/lib/job-alert-digest'
+
+// GET only shows a confirmation page: mail scanners follow links in emails,
+// so the alert is deleted on POST — from the page's form, or from a mail
+// client's one-click unsubscribe (RFC 8058)
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url)
+  const alertId = searchParams.get('id')
+  const token = searchParams.get('token')
+
+  if (!alertId || !token) {
+    return htmlResponse('error', 'Invalid request — missing parameters.')
+  }
+
+  if (!verifyAlertUnsubscribeToken(alertId, token)) {
+    return htmlResponse('error', 'Invalid or expired link.')
+  }
+
+  return htmlResponse('confirm', '', `?id=${encodeURIComponent(alertId)}&token=${encodeURIComponent(token)}`)
+}
+
+export async function POST(req: NextRequest) {
+  const { searchParams } = new URL(req.url)
+  const alertId = searchParams.get('id')
+  const token = searchParams.get('token')
+
+  if (!alertId || !token) {
+    return htmlResponse('error', 'Invalid request — missing parameters.')
+  }
+
+  if (!verifyAlertUnsubscribeToken(alertId, token)) {
+    return htmlResponse('error', 'Invalid or expired link.')
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  const { error } = await adminSupabase
+    .from('job_alerts')
+    .delete()
+    .eq('id', alertId)
+
+  if (error) {
+    return htmlResponse('error', `Database error: ${error.message}`)
+  }
+
+  return htmlResponse('unsubscribed', '')
+}
+
+function htmlResponse(result: 'confirm' | 'unsubscribed' | 'error', message: string, formQuery = '') {
+  const config = {
+    confirm: {
+      color: '#2563eb',
+      bg: '#eff6ff',
+      icon: '✉',
+      heading: 'Unsubscribe?',
+      body: 'You will no longer receive emails for this job alert. Your other alerts are not affected.',
+    },
+    unsubscribed: {
+      color: '#16a34a',
+      bg: '#f0fdf4',
+      icon: '✓',
+      heading: 'Unsubscribed',
+      body: 'This job alert has been deleted. You can set up new alerts from the job listings.',
+    },
+    error: {
+      color: '#6b7280',
+      bg: '#f9fafb',
+      icon: '!',
+      heading: 'Error',
+      body: message || 'Something went wrong.',
+    },
+  }[result]
+
+  const action = result === 'confirm'
+    ? `<form method="post" action="/api/job-alerts/unsubscribe${formQuery}"><button type="submit">Unsubscribe</button></form>`
+    : '<a href="https://osteojob.com/jobs">View Listings</a>'
+
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${config.heading} — OsteoJob</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; display: flex; align-items: center; justify-content: center; min-height: 100vh; margin: 0; background: #f3f4f6; }
+    .card { background: white; border-radius: 20px; padding: 48px 40px; text-align: center; max-width: 420px; width: 90%; box-shadow: 0 4px 24px rgba(0,0,0,0.10); }
+    .icon { width: 72px; height: 72px; border-radius: 50%; background: ${config.bg}; color: ${config.color}; font-size: 36px; display: flex; align-items: center; justify-content: center; margin: 0 auto 20px; border: 2px solid ${config.color}; }
+    h1 { color: ${config.color}; margin: 0 0 10px; font-size: 24px; }
+    p { color: #6b7280; margin: 0 0 28px; font-size: 15px; }
+    a, button { display: inline-block; background: #2563eb; color: white; padding: 13px 28px; border: none; border-radius: 8px; text-decoration: none; font-weight: bold; font-size: 15px; cursor: pointer; }
+    a:hover, button:hover { background: #1d4ed8; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="icon">${config.icon}</div>
+    <h1>${config.heading}</h1>
+    <p>${config.body}</p>
+    ${action}
+  </div>
+</body>
+</html>`,
+    { headers: { 'Content-Type': 'text/html' } }
+  )
+}
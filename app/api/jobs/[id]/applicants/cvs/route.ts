@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { downloadZip } from 'client-zip'
+import { getRequestUser } from '@/lib/auth'
+import { CV_BUCKET } from '@/lib/cv'
+import { cvFileNames, exportFileName } from '@/lib/applicant-export'
+
+// ZIP of every CV sent to a job, named after the applicants. Files are
+// fetched from storage one at a time as the ZIP is streamed, so large jobs
+// don't have to fit in memory. Only the employer who posted the job can
+// download it.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: job } = await adminSupabase
+    .from('jobs')
+    .select('id, title, employer_id')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!job || job.employer_id !== user.id) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const { data: applications, error } = await adminSupabase
+    .from('applications')
+    .select('id, applicant_name, cv_url')
+    .eq('job_id', id)
+    .not('cv_url', 'is', null)
+    .order('applied_at', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+  if (!applications?.length) {
+    return NextResponse.json({ error: 'No CVs have been sent for this job yet' }, { status: 404 })
+  }
+
+  const names = cvFileNames(applications)
+
+  async function* files() {
+    for (const application of applications!) {
+      const name = names.get(application.id)
+      if (!application.cv_url || !name) continue
+
+      const { data, error: downloadError } = await adminSupabase.storage.from(CV_BUCKET).download(application.cv_url)
+      if (downloadError || !data) {
+        // Skip a missing file rather than failing the whole download
+        console.error(`CV download failed for application ${application.id}:`, downloadError)
+        continue
+      }
+      yield { name, input: data }
+    }
+  }
+
+  const zip = downloadZip(files())
+
+  return new NextResponse(zip.body, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${exportFileName(job.title, 'zip')}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
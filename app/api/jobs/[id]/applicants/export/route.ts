@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '@/lib/auth'
+import { APPLICATION_COLUMNS } from '@/lib/applications'
+import { applicationsCsv, exportFileName } from '@/lib/applicant-export'
+import type { ExportedApplication } from '@/lib/applicant-export'
+
+// CSV of a job's applications, including the employer's private notes. Only
+// the employer who posted the job can export it.
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const user = await getRequestUser(req)
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const adminSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data: job } = await adminSupabase
+    .from('jobs')
+    .select('id, title, employer_id, screening_questions')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!job || job.employer_id !== user.id) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+  }
+
+  const { data: applications, error } = await adminSupabase
+    .from('applications')
+    .select(`${APPLICATION_COLUMNS}, employer_notes`)
+    .eq('job_id', id)
+    .order('applied_at', { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const csv = applicationsCsv(job.screening_questions || [], (applications || []) as unknown as ExportedApplication[])
+
+  return new NextResponse(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${exportFileName(job.title, 'csv')}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
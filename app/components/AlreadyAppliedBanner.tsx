@@ -0,0 +1,19 @@
+import Link from 'next/link'
+import { dashboardApplicationUrl } from '@/lib/applications'
+import type { OwnApplication } from '@/lib/applications'
+
+export default function AlreadyAppliedBanner({ application }: { application: OwnApplication }) {
+  return (
+    <div className="w-full p-4 bg-green-50 border border-green-200 rounded-[15px] flex flex-wrap items-center justify-between gap-3">
+      <p className="text-green-700 font-semibold">
+        ✓ You applied on {new Date(application.applied_at).toLocaleDateString()} — status: {application.status}
+      </p>
+      <Link
+        href={dashboardApplicationUrl(application.id)}
+        className="text-sm font-semibold text-[#32487A] hover:text-[#4b8ec2] transition"
+      >
+        View in dashboard →
+      </Link>
+    </div>
+  )
+}
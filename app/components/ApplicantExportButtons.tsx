@@ -0,0 +1,60 @@
+'use client'
+
+import { useState } from 'react'
+import { authHeaders } from '@/lib/auth'
+import { exportFileName } from '@/lib/applicant-export'
+
+type ExportKind = 'csv' | 'zip'
+
+const EXPORTS: Record<ExportKind, { path: string; label: string; busyLabel: string }> = {
+  csv: { path: 'export', label: 'Export CSV', busyLabel: 'Exporting...' },
+  zip: { path: 'cvs', label: 'Download all CVs', busyLabel: 'Preparing ZIP...' },
+}
+
+// Employer downloads of a job's applicants. The routes need the bearer
+// token, so the file is fetched and saved here rather than linked to.
+export default function ApplicantExportButtons({ jobId, jobTitle }: { jobId: string; jobTitle: string }) {
+  const [busy, setBusy] = useState<ExportKind | null>(null)
+  const [error, setError] = useState('')
+
+  const download = async (kind: ExportKind) => {
+    setBusy(kind)
+    setError('')
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/applicants/${EXPORTS[kind].path}`, { headers: await authHeaders() })
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}))
+        throw new Error(json.error || 'Download failed')
+      }
+
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = exportFileName(jobTitle, kind)
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(EXPORTS) as ExportKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => download(kind)}
+            disabled={busy !== null}
+            className="px-4 py-2 border-2 border-[#4b8ec2] text-[#32487A] rounded-lg text-sm font-semibold hover:bg-[#dce8f5] transition disabled:opacity-50"
+          >
+            {busy === kind ? EXPORTS[kind].busyLabel : EXPORTS[kind].label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
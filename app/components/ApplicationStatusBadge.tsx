@@ -0,0 +1,11 @@
+import { APPLICATION_STATUSES } from '@/lib/applications'
+import type { ApplicationStatus } from '@/lib/supabase'
+
+export default function ApplicationStatusBadge({ status }: { status: ApplicationStatus }) {
+  const meta = APPLICATION_STATUSES[status]
+  return (
+    <span className={`px-3 py-1 rounded-full text-sm font-semibold ${meta?.badgeClass || 'bg-gray-100 text-gray-800'}`}>
+      {meta?.label || status}
+    </span>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { APPLICATION_STATUSES, EMPLOYER_STATUSES, notifiesCandidate, updateApplicationStatus } from '@/lib/applications'
+import type { EmployerStatus, StatusUpdate, StatusUpdateResult } from '@/lib/applications'
+import type { Application } from '@/lib/supabase'
+
+// Employer actions on one application: pipeline moves and a private note
+export default function ApplicationStatusControls({
+  application,
+  onUpdated,
+}: {
+  application: Application
+  onUpdated: (result: StatusUpdateResult) => void
+}) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [editingNote, setEditingNote] = useState(false)
+  const [note, setNote] = useState(application.employer_notes || '')
+  // Status being confirmed, with the optional message for the candidate
+  const [moving, setMoving] = useState<EmployerStatus | null>(null)
+  const [message, setMessage] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const save = async (update: StatusUpdate) => {
+    setSaving(true)
+    setError('')
+    setNotice('')
+    try {
+      const result = await updateApplicationStatus(application.id, update)
+      onUpdated(result)
+      setNote(result.employer_notes || '')
+      setEditingNote(false)
+      setMoving(null)
+      setMessage('')
+      if (result.emailed) setNotice(`✓ ${application.applicant_name} has been emailed about this update`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update application')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // The candidate withdrew, so there is nothing left for the employer to decide
+  if (application.status === 'withdrawn') {
+    return <p className="mt-3 text-sm text-gray-500">Withdrawn by the candidate.</p>
+  }
+  const currentStatus = application.status
+
+  const moves = EMPLOYER_STATUSES.filter(status => status !== currentStatus)
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {moves.map(status => (
+          <button
+            key={status}
+            onClick={() => (notifiesCandidate(status) ? setMoving(status) : save({ status }))}
+            disabled={saving}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold border-2 transition disabled:opacity-50 ${
+              status === 'rejected'
+                ? 'border-red-200 text-red-600 hover:bg-red-50 hover:border-red-400'
+                : 'border-[#4b8ec2] text-[#32487A] hover:bg-[#dce8f5]'
+            }`}
+          >
+            {APPLICATION_STATUSES[status].action}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditingNote(v => !v)}
+          disabled={saving}
+          className="px-3 py-1 rounded-lg text-sm font-semibold border-2 border-gray-300 text-gray-700 hover:border-gray-400 transition disabled:opacity-50"
+        >
+          {application.employer_notes ? '📝 Edit note' : '📝 Add note'}
+        </button>
+      </div>
+
+      {moving && (
+        <div className="space-y-2 bg-[#F5F7FC] rounded-lg p-3">
+          <label htmlFor={`message-${application.id}`} className="block text-sm font-semibold text-gray-900">
+            {APPLICATION_STATUSES[moving].action} — personal message to {application.applicant_name} (optional)
+          </label>
+          <textarea
+            id={`message-${application.id}`}
+            value={message}
+            onChange={e => setMessage(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder={moving === 'rejected'
+              ? 'A kind standard message is always included. Add anything personal here.'
+              : 'Added to the update email the candidate receives'}
+            className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900 text-sm bg-white"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => save({ status: moving, message })}
+              disabled={saving}
+              className="px-4 py-1.5 bg-[#32487A] text-white rounded-lg text-sm font-semibold hover:bg-[#4b8ec2] transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : APPLICATION_STATUSES[moving].action}
+            </button>
+            <button
+              onClick={() => { setMoving(null); setMessage('') }}
+              className="px-4 py-1.5 border-2 border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:border-gray-400 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!editingNote && application.employer_notes && (
+        <p className="text-sm text-gray-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3 whitespace-pre-wrap">
+          {application.employer_notes}
+        </p>
+      )}
+
+      {editingNote && (
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            placeholder="Private note — only you can see this"
+            className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => save({ status: currentStatus, employer_notes: note })}
+              disabled={saving}
+              className="px-4 py-1.5 bg-[#32487A] text-white rounded-lg text-sm font-semibold hover:bg-[#4b8ec2] transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save note'}
+            </button>
+            <button
+              onClick={() => { setEditingNote(false); setNote(application.employer_notes || '') }}
+              className="px-4 py-1.5 border-2 border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:border-gray-400 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-green-700">{notice}</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
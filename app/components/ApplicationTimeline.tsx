@@ -0,0 +1,21 @@
+import { APPLICATION_STATUSES } from '@/lib/applications'
+import type { ApplicationStatusChange } from '@/lib/supabase'
+
+// Status history of one application, oldest first
+export default function ApplicationTimeline({ history }: { history: ApplicationStatusChange[] }) {
+  if (history.length === 0) return null
+
+  return (
+    <ol className="mt-3 border-l-2 border-[#dce8f5] pl-4 space-y-1 text-sm">
+      {history.map(change => (
+        <li key={change.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full bg-[#4b8ec2]" />
+          <span className="font-medium text-gray-900">
+            {change.from_status ? APPLICATION_STATUSES[change.to_status]?.label || change.to_status : 'Applied'}
+          </span>
+          <span className="text-gray-500"> — {new Date(change.changed_at).toLocaleString()}</span>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import { fetchOwnApplication } from '@/lib/applications'
+import type { OwnApplication } from '@/lib/applications'
+import AlreadyAppliedBanner from './AlreadyAppliedBanner'
+
+// "Apply Now" on the job detail page, replaced by the candidate's application
+// status once they have applied
+export default function ApplyButton({ jobId }: { jobId: string }) {
+  const [application, setApplication] = useState<OwnApplication | null>(null)
+
+  useEffect(() => {
+    const checkApplied = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      const user = session?.user
+      if (!user) return
+      setApplication(await fetchOwnApplication(jobId, user.id))
+    }
+    checkApplied()
+  }, [jobId])
+
+  if (application) {
+    return <AlreadyAppliedBanner application={application} />
+  }
+
+  return (
+    <Link
+      href={`/jobs/${jobId}/apply`}
+      className="inline-block bg-[#32487A] text-white px-8 py-3 rounded-full font-semibold hover:bg-[#4b8ec2] transition text-center w-full sm:w-auto"
+    >
+      Apply Now
+    </Link>
+  )
+}
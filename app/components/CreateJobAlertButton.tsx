@@ -0,0 +1,153 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import type { JobAlert } from '@/lib/supabase'
+import { ALERT_FREQUENCIES, describeAlert } from '@/lib/job-alerts'
+import type { AlertFilters } from '@/lib/job-alerts'
+
+// "Create job alert" on /jobs — saves the current filters as a named alert
+export default function CreateJobAlertButton({ filters }: { filters: AlertFilters }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [frequency, setFrequency] = useState<JobAlert['frequency']>('daily')
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState('')
+
+  const start = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session?.user) {
+      router.push('/auth/login')
+      return
+    }
+    setName(describeAlert(filters).slice(0, 100))
+    setSaved(false)
+    setError('')
+    setOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const user = session?.user
+      if (!user) {
+        router.push('/auth/login')
+        return
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('user_type')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.user_type !== 'candidate') {
+        setError('Job alerts are available to candidate accounts.')
+        return
+      }
+
+      const { error: insertError } = await supabase
+        .from('job_alerts')
+        .insert({ candidate_id: user.id, name: name.trim(), frequency, ...filters })
+
+      if (insertError) {
+        setError(insertError.message || 'Failed to create job alert')
+        return
+      }
+
+      setSaved(true)
+      setOpen(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (saved) {
+    return (
+      <p className="text-sm font-semibold text-green-700">
+        ✓ Alert created — manage it from your <Link href="/dashboard" className="underline">dashboard</Link>
+      </p>
+    )
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? setOpen(false) : start())}
+        aria-expanded={open}
+        className="px-5 py-3 bg-white rounded-full shadow-sm font-semibold text-[#32487A] hover:bg-[#dce8f5] transition"
+      >
+        🔔 Create job alert
+      </button>
+
+      {open && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 top-full mt-2 z-20 w-[min(90vw,26rem)] bg-white rounded-[25px] shadow-lg border border-gray-100 p-6 space-y-4"
+        >
+          <p className="text-sm text-gray-600">
+            Get an email when new jobs match: <span className="font-medium text-gray-900">{describeAlert(filters)}</span>
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="alert-name" className="block text-sm font-semibold mb-2 text-gray-900">Alert name</label>
+            <input
+              id="alert-name"
+              type="text"
+              required
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:border-[#4b8ec2] transition"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="alert-frequency" className="block text-sm font-semibold mb-2 text-gray-900">Frequency</label>
+            <select
+              id="alert-frequency"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as JobAlert['frequency'])}
+              className="w-full px-4 py-3 border-2 border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:border-[#4b8ec2] transition"
+            >
+              {(Object.keys(ALERT_FREQUENCIES) as JobAlert['frequency'][]).map(f => (
+                <option key={f} value={f}>{ALERT_FREQUENCIES[f].label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="flex-1 px-6 py-3 bg-[#32487A] text-white rounded-lg font-semibold hover:bg-[#4b8ec2] transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save alert'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold text-gray-700 hover:border-gray-400 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
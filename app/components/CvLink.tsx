@@ -0,0 +1,43 @@
+'use client'
+
+import { useState } from 'react'
+import { fetchCvUrl } from '@/lib/cv'
+
+// Opens a private CV in a new tab through a signed URL. The tab is opened
+// before the URL is fetched so popup blockers treat it as a click.
+export default function CvLink({
+  path,
+  className,
+  children,
+}: {
+  path: string
+  className?: string
+  children: React.ReactNode
+}) {
+  const [opening, setOpening] = useState(false)
+
+  const open = async () => {
+    const tab = window.open('', '_blank')
+    setOpening(true)
+    try {
+      const url = await fetchCvUrl(path)
+      if (tab) {
+        tab.opener = null
+        tab.location.href = url
+      } else {
+        window.location.href = url
+      }
+    } catch (err) {
+      tab?.close()
+      alert(err instanceof Error ? err.message : 'Could not open the CV')
+    } finally {
+      setOpening(false)
+    }
+  }
+
+  return (
+    <button type="button" onClick={open} disabled={opening} className={`${className ?? ''} disabled:opacity-50`}>
+      {children}
+    </button>
+  )
+}
@@ -119,6 +119,12 @@ export default function HeaderNav() {
                       📊 Dashboard
                     </Link>
 
+                    {profile?.user_type === 'candidate' && (
+                      <Link href="/saved-jobs" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => setShowUserMenu(false)}>
+                        ⭐ Saved Jobs
+                      </Link>
+                    )}
+
                     {profile?.user_type === 'employer' && (
                       <Link href="/post-job" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => setShowUserMenu(false)}>
                         ➕ Post Job
@@ -0,0 +1,66 @@
+'use client'
+
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import type { JobAlert } from '@/lib/supabase'
+import { jobsUrl } from '@/lib/job-search'
+import { ALERT_FREQUENCIES, describeAlert, jobFiltersFromAlert } from '@/lib/job-alerts'
+
+export default function JobAlertsList({
+  alerts,
+  onRemove,
+}: {
+  alerts: JobAlert[]
+  onRemove: (alertId: string) => void
+}) {
+  const handleDelete = async (alert: JobAlert) => {
+    if (!confirm(`Delete the job alert "${alert.name}"?`)) return
+
+    const { error } = await supabase
+      .from('job_alerts')
+      .delete()
+      .eq('id', alert.id)
+
+    if (error) { console.error('delete alert error:', error); return }
+    onRemove(alert.id)
+  }
+
+  return (
+    <div className="space-y-4">
+      {alerts.map((alert) => (
+        <div key={alert.id} className="border-2 border-gray-200 rounded-lg p-4">
+          <div className="flex justify-between items-start gap-4 flex-wrap">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <h3 className="text-lg font-semibold text-gray-900">{alert.name}</h3>
+                <span className="px-3 py-1 bg-[#F5F7FC] text-[#32487A] rounded-full text-xs font-medium">
+                  {ALERT_FREQUENCIES[alert.frequency].label}
+                </span>
+              </div>
+              <p className="text-gray-800">{describeAlert(alert)}</p>
+              <p className="text-sm text-gray-700 mt-2">
+                {alert.last_sent_at
+                  ? `Last checked ${new Date(alert.last_sent_at).toLocaleDateString()}`
+                  : `Created ${new Date(alert.created_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Link
+                href={jobsUrl(jobFiltersFromAlert(alert))}
+                className="px-4 py-2 bg-[#32487A] text-white rounded-lg text-sm font-semibold hover:bg-[#4b8ec2] transition"
+              >
+                View jobs
+              </Link>
+              <button
+                onClick={() => handleDelete(alert)}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg text-sm font-semibold text-gray-700 hover:border-red-300 hover:text-red-600 transition"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import 'leaflet/dist/leaflet.css'
+import 'leaflet.markercluster/dist/MarkerCluster.css'
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css'
+
+export type JobMapMarker = {
+  id: string
+  title: string
+  company: string | null
+  location: string
+  jobType: string
+  salary: string | null
+  featured: boolean
+  latitude: number
+  longitude: number
+  // Placed at the country centroid because the city couldn't be geocoded
+  approximate: boolean
+}
+
+// Popup preview, built from DOM nodes so job text is never parsed as HTML
+function popupContent(marker: JobMapMarker): HTMLElement {
+  const el = (tag: string, className: string, text?: string) => {
+    const node = document.createElement(tag)
+    node.className = className
+    if (text) node.textContent = text
+    return node
+  }
+
+  const card = el('div', 'w-56')
+  card.append(el('p', 'font-semibold text-[#2d436f] text-base leading-snug', marker.title))
+  if (marker.company) card.append(el('p', 'text-gray-700 text-sm', marker.company))
+
+  const tags = el('div', 'flex flex-wrap gap-1 my-2 text-xs')
+  tags.append(el('span', 'px-2 py-0.5 bg-[#F5F7FC] text-[#32487A] rounded-full font-medium', marker.jobType))
+  tags.append(el('span', 'px-2 py-0.5 bg-gray-100 text-gray-800 rounded-full', `📍 ${marker.location}`))
+  if (marker.salary) tags.append(el('span', 'px-2 py-0.5 bg-green-50 text-green-600 rounded-full', `💰 ${marker.salary}`))
+  card.append(tags)
+
+  if (marker.approximate) {
+    card.append(el('p', 'text-xs text-gray-500 mb-2', 'Exact location not listed — shown at the centre of the country.'))
+  }
+
+  const link = el('a', 'inline-block bg-[#32487A] !text-white px-4 py-1.5 rounded-full text-sm font-semibold hover:bg-[#4b8ec2] transition', 'View job →')
+  link.setAttribute('href', `/jobs/${marker.id}`)
+  card.append(link)
+  return card
+}
+
+export default function JobsMap({ markers }: { markers: JobMapMarker[] }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    let map: import('leaflet').Map | null = null
+    let cancelled = false
+
+    // Leaflet touches window on import, so it is only loaded in the browser
+    const init = async () => {
+      const L = (await import('leaflet')).default
+      await import('leaflet.markercluster')
+      if (cancelled) return
+
+      map = L.map(container, { worldCopyJump: true }).setView([30, 10], 2)
+      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        maxZoom: 18,
+      }).addTo(map)
+
+      const cluster = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 })
+      for (const marker of markers) {
+        const icon = L.divIcon({
+          className: '',
+          html: `<span class="block w-4 h-4 rounded-full border-2 border-white shadow ${
+            marker.featured ? 'bg-amber-400' : marker.approximate ? 'bg-[#4b8ec2]' : 'bg-[#32487A]'
+          }"></span>`,
+          iconSize: [16, 16],
+          iconAnchor: [8, 8],
+        })
+        cluster.addLayer(
+          L.marker([marker.latitude, marker.longitude], { icon, title: marker.title })
+            .bindPopup(() => popupContent(marker))
+        )
+      }
+      map.addLayer(cluster)
+
+      if (markers.length > 0) {
+        map.fitBounds(cluster.getBounds(), { padding: [40, 40], maxZoom: 10 })
+      }
+    }
+    init()
+
+    return () => {
+      cancelled = true
+      map?.remove()
+    }
+  }, [markers])
+
+  return <div ref={containerRef} className="w-full h-full z-0" />
+}
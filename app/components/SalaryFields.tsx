@@ -0,0 +1,82 @@
+'use client'
+
+import { CURRENCIES, SALARY_PERIODS } from '@/lib/salary'
+import type { SalaryInput, SalaryPeriod } from '@/lib/salary'
+
+export default function SalaryFields({
+  value,
+  onChange,
+}: {
+  value: SalaryInput
+  onChange: (value: SalaryInput) => void
+}) {
+  const set = (field: keyof SalaryInput) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      onChange({ ...value, [field]: e.target.value })
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-gray-900 mb-2">
+        Salary
+      </label>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <select
+          value={value.currency}
+          onChange={set('currency')}
+          aria-label="Currency"
+          className="px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+        >
+          {CURRENCIES.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={value.min}
+          onChange={set('min')}
+          aria-label="Minimum"
+          placeholder="Min e.g. 30000"
+          className="px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={value.max}
+          onChange={set('max')}
+          aria-label="Maximum"
+          placeholder="Max e.g. 45000"
+          className="px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+        />
+        <select
+          value={value.period}
+          onChange={e => onChange({ ...value, period: e.target.value as SalaryPeriod | '' })}
+          aria-label="Pay period"
+          className="px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+        >
+          <option value="">No set period</option>
+          {Object.entries(SALARY_PERIODS).map(([period, label]) => (
+            <option key={period} value={period}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-sm text-gray-700 mt-1">
+        Optional — leave the amounts blank if the salary is negotiable. Helps attract the right candidates.
+      </p>
+      <input
+        type="text"
+        value={value.terms}
+        onChange={set('terms')}
+        aria-label="Pay terms"
+        placeholder="Pay terms, e.g. + super, Self employed, 60% fee split"
+        maxLength={200}
+        className="w-full mt-3 px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+      />
+      <p className="text-sm text-gray-700 mt-1">
+        Shown after the amounts (e.g. + super, + bonus), or instead of them when both are blank.
+      </p>
+    </div>
+  )
+}
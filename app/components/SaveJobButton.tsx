@@ -4,7 +4,40 @@ import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 
-export default function SaveJobButton({ jobId }: { jobId: string }) {
+// The candidate's saved job ids, loaded once and shared by every button on
+// the page — the /jobs listing renders one per job card
+let savedJobIds: { userId: string; ids: Promise<Set<string>> } | null = null
+
+async function fetchSavedJobIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('saved_jobs')
+    .select('job_id')
+    .eq('candidate_id', userId)
+  if (error) throw error
+  return new Set((data || []).map(row => row.job_id as string))
+}
+
+function loadSavedJobIds(userId: string): Promise<Set<string>> {
+  if (!savedJobIds || savedJobIds.userId !== userId) {
+    const ids = fetchSavedJobIds(userId)
+    savedJobIds = { userId, ids }
+    // Forget a failed load so the next button to mount tries again
+    ids.catch(() => {
+      if (savedJobIds?.ids === ids) savedJobIds = null
+    })
+  }
+  return savedJobIds.ids
+}
+
+export default function SaveJobButton({
+  jobId,
+  variant = 'default',
+  onChange,
+}: {
+  jobId: string
+  variant?: 'default' | 'compact'
+  onChange?: (saved: boolean) => void
+}) {
   const router = useRouter()
   const [saved, setSaved] = useState(false)
   const [loading, setLoading] = useState(true)
@@ -20,15 +53,14 @@ export default function SaveJobButton({ jobId }: { jobId: string }) {
     if (!user) { setLoading(false); return }
     setUserId(user.id)
 
-    const { data } = await supabase
-      .from('saved_jobs')
-      .select('id')
-      .eq('candidate_id', user.id)
-      .eq('job_id', jobId)
-      .maybeSingle()
-
-    setSaved(!!data)
-    setLoading(false)
+    try {
+      const ids = await loadSavedJobIds(user.id)
+      setSaved(ids.has(jobId))
+    } catch (err) {
+      console.error('saved jobs error:', err)
+    } finally {
+      setLoading(false)
+    }
   }
 
   const toggle = async () => {
@@ -37,6 +69,20 @@ export default function SaveJobButton({ jobId }: { jobId: string }) {
       return
     }
 
+    let ids: Set<string>
+    try {
+      ids = await loadSavedJobIds(userId)
+    } catch (err) {
+      console.error('saved jobs error:', err)
+      return
+    }
+
+    // The check on mount may have failed; show the real state before changing it
+    if (ids.has(jobId) !== saved) {
+      setSaved(ids.has(jobId))
+      return
+    }
+
     if (saved) {
       const { error } = await supabase
         .from('saved_jobs')
@@ -44,16 +90,39 @@ export default function SaveJobButton({ jobId }: { jobId: string }) {
         .eq('candidate_id', userId)
         .eq('job_id', jobId)
       if (error) { console.error('unsave error:', error); return }
+      ids.delete(jobId)
       setSaved(false)
+      onChange?.(false)
     } else {
       const { error } = await supabase
         .from('saved_jobs')
         .insert({ candidate_id: userId, job_id: jobId })
       if (error) { console.error('save error:', error); return }
+      ids.add(jobId)
       setSaved(true)
+      onChange?.(true)
     }
   }
 
+  if (variant === 'compact') {
+    return (
+      <button
+        onClick={toggle}
+        disabled={loading}
+        aria-label={saved ? 'Remove from saved jobs' : 'Save job'}
+        aria-pressed={saved}
+        title={saved ? 'Saved' : 'Save job'}
+        className={`w-10 h-10 flex items-center justify-center rounded-full border-2 text-lg transition ${
+          saved
+            ? 'border-[#32487A] bg-[#dce8f5] text-[#32487A]'
+            : 'border-gray-200 bg-white text-gray-500 hover:border-[#4b8ec2] hover:text-[#32487A]'
+        } disabled:opacity-50`}
+      >
+        {saved ? '★' : '☆'}
+      </button>
+    )
+  }
+
   if (loading) {
     return (
       <button disabled className="ml-4 px-6 py-3 border-2 border-gray-200 rounded-lg font-semibold text-gray-400">
@@ -0,0 +1,91 @@
+'use client'
+
+import Link from 'next/link'
+import SaveJobButton from './SaveJobButton'
+import { jobSalaryText } from '@/lib/salary'
+import { isJobOpen } from '@/lib/saved-jobs'
+import type { SavedJob } from '@/lib/supabase'
+
+export default function SavedJobsList({
+  savedJobs,
+  appliedJobIds,
+  onRemove,
+}: {
+  savedJobs: SavedJob[]
+  appliedJobIds: Set<string>
+  onRemove: (jobId: string) => void
+}) {
+  return (
+    <div className="space-y-4">
+      {savedJobs.map(({ id, job_id, created_at, job }) => {
+        const open = job ? isJobOpen(job) : false
+        const applied = appliedJobIds.has(job_id)
+        const salaryText = job ? jobSalaryText(job) : null
+
+        return (
+          <div
+            key={id}
+            className={`border-2 rounded-lg p-4 transition ${
+              open ? 'border-gray-200 hover:border-[#4b8ec2]' : 'border-gray-100 bg-gray-50'
+            }`}
+          >
+            <div className="flex justify-between items-start gap-4 flex-wrap">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  {job ? (
+                    <Link
+                      href={`/jobs/${job.id}`}
+                      className={`text-lg font-semibold hover:text-[#32487A] ${open ? 'text-gray-900' : 'text-gray-500'}`}
+                    >
+                      {job.title}
+                    </Link>
+                  ) : (
+                    <span className="text-lg font-semibold text-gray-500">Job removed</span>
+                  )}
+                  {!open && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-600">
+                      {job ? 'This job has closed' : 'No longer available'}
+                    </span>
+                  )}
+                </div>
+                {job && (
+                  <p className="text-gray-800">
+                    {job.employer?.company_name && `${job.employer.company_name} • `}
+                    {job.location_country}
+                    {job.location_city && `, ${job.location_city}`} • {job.job_type}
+                  </p>
+                )}
+                {salaryText && (
+                  <p className="text-sm text-green-600 mt-1">💰 {salaryText}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-1">
+                  Saved {new Date(created_at).toLocaleDateString()}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {applied ? (
+                  <span className="px-3 py-1 rounded-full text-sm font-semibold bg-green-100 text-green-700">
+                    ✓ Applied
+                  </span>
+                ) : open && (
+                  <Link
+                    href={`/jobs/${job_id}/apply`}
+                    className="px-4 py-2 bg-[#32487A] text-white rounded-full text-sm font-semibold hover:bg-[#4b8ec2] transition"
+                  >
+                    Apply
+                  </Link>
+                )}
+                <SaveJobButton
+                  jobId={job_id}
+                  variant="compact"
+                  onChange={saved => { if (!saved) onRemove(job_id) }}
+                />
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
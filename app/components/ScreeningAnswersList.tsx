@@ -0,0 +1,17 @@
+import type { ScreeningAnswer } from '@/lib/screening'
+
+// A candidate's answers to the job's screening questions, for the employer
+export default function ScreeningAnswersList({ answers }: { answers: ScreeningAnswer[] }) {
+  if (answers.length === 0) return null
+
+  return (
+    <dl className="mt-2 grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm bg-[#F5F7FC] rounded-lg p-3">
+      {answers.map(answer => (
+        <div key={answer.question_id} className="contents">
+          <dt className="text-gray-600">{answer.question}</dt>
+          <dd className="font-medium text-gray-900 whitespace-pre-wrap">{answer.answer}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
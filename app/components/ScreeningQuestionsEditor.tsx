@@ -0,0 +1,172 @@
+'use client'
+
+import {
+  MAX_SCREENING_QUESTIONS,
+  SCREENING_QUESTION_TYPES,
+  SUGGESTED_SCREENING_QUESTIONS,
+  newScreeningQuestion,
+} from '@/lib/screening'
+import type { ScreeningQuestion, ScreeningQuestionType } from '@/lib/screening'
+
+export default function ScreeningQuestionsEditor({
+  value,
+  onChange,
+}: {
+  value: ScreeningQuestion[]
+  onChange: (value: ScreeningQuestion[]) => void
+}) {
+  const update = (id: string, changes: Partial<ScreeningQuestion>) =>
+    onChange(value.map(q => (q.id === id ? { ...q, ...changes } : q)))
+
+  const remove = (id: string) => onChange(value.filter(q => q.id !== id))
+
+  const move = (index: number, offset: number) => {
+    const next = [...value]
+    const [question] = next.splice(index, 1)
+    next.splice(index + offset, 0, question)
+    onChange(next)
+  }
+
+  const setType = (question: ScreeningQuestion, type: ScreeningQuestionType) =>
+    update(question.id, {
+      type,
+      options: type === 'multiple_choice' ? (question.options?.length ? question.options : ['', '']) : undefined,
+    })
+
+  const full = value.length >= MAX_SCREENING_QUESTIONS
+  const suggestions = SUGGESTED_SCREENING_QUESTIONS.filter(s => !value.some(q => q.label.trim() === s.label))
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-gray-900 mb-2">
+        Screening Questions
+      </label>
+
+      <div className="space-y-3">
+        {value.map((question, index) => (
+          <div key={question.id} className="border-2 border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={question.label}
+                onChange={e => update(question.id, { label: e.target.value })}
+                aria-label={`Question ${index + 1}`}
+                placeholder="e.g. Are you registered with the GOsC?"
+                maxLength={200}
+                className="flex-1 px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              />
+              <select
+                value={question.type}
+                onChange={e => setType(question, e.target.value as ScreeningQuestionType)}
+                aria-label={`Answer type for question ${index + 1}`}
+                className="px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              >
+                {Object.entries(SCREENING_QUESTION_TYPES).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {question.type === 'multiple_choice' && (
+              <div className="space-y-2 md:pl-4">
+                {(question.options || []).map((option, i) => (
+                  <div key={i} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={e => update(question.id, {
+                        options: (question.options || []).map((o, j) => (j === i ? e.target.value : o)),
+                      })}
+                      aria-label={`Choice ${i + 1}`}
+                      placeholder={`Choice ${i + 1}`}
+                      maxLength={100}
+                      className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => update(question.id, { options: (question.options || []).filter((_, j) => j !== i) })}
+                      aria-label={`Remove choice ${i + 1}`}
+                      className="px-3 text-gray-400 hover:text-red-600 transition"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => update(question.id, { options: [...(question.options || []), ''] })}
+                  className="text-sm font-semibold text-[#32487A] hover:text-[#4b8ec2] transition"
+                >
+                  + Add choice
+                </button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+              <label className="flex items-center gap-2 text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={question.required}
+                  onChange={e => update(question.id, { required: e.target.checked })}
+                  className="accent-[#32487A]"
+                />
+                Required
+              </label>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move question up"
+                  className="text-gray-500 hover:text-[#32487A] transition disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === value.length - 1}
+                  aria-label="Move question down"
+                  className="text-gray-500 hover:text-[#32487A] transition disabled:opacity-30"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(question.id)}
+                  className="font-semibold text-red-600 hover:text-red-700 transition"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          type="button"
+          onClick={() => onChange([...value, newScreeningQuestion()])}
+          disabled={full}
+          className="px-4 py-2 border-2 border-[#4b8ec2] text-[#32487A] rounded-lg text-sm font-semibold hover:bg-[#dce8f5] transition disabled:opacity-50"
+        >
+          + Add question
+        </button>
+        {!full && suggestions.map(suggestion => (
+          <button
+            key={suggestion.label}
+            type="button"
+            onClick={() => onChange([...value, newScreeningQuestion(suggestion)])}
+            className="px-3 py-2 bg-[#F5F7FC] text-[#32487A] rounded-full text-sm hover:bg-[#dce8f5] transition"
+          >
+            + {suggestion.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-700 mt-1">
+        Optional — applicants answer these when they apply, so you don&apos;t have to follow up by email.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { MAX_ANSWER_LENGTH } from '@/lib/screening'
+import type { ScreeningAnswerInput, ScreeningQuestion } from '@/lib/screening'
+
+// The employer's screening questions on the apply form
+export default function ScreeningQuestionsFields({
+  questions,
+  value,
+  onChange,
+}: {
+  questions: ScreeningQuestion[]
+  value: ScreeningAnswerInput
+  onChange: (value: ScreeningAnswerInput) => void
+}) {
+  const set = (id: string, answer: string) => onChange({ ...value, [id]: answer })
+
+  return (
+    <fieldset className="space-y-6">
+      <legend className="text-lg font-semibold text-gray-900 mb-4">Questions from the employer</legend>
+
+      {questions.map(question => {
+        const id = `screening-${question.id}`
+        const answer = value[question.id] || ''
+        const label = `${question.label}${question.required ? ' *' : ''}`
+
+        if (question.type === 'yes_no' || question.type === 'multiple_choice') {
+          const options = question.type === 'yes_no' ? ['Yes', 'No'] : question.options || []
+          return (
+            <div key={question.id} role="radiogroup" aria-labelledby={`${id}-label`}>
+              <p id={`${id}-label`} className="block text-sm font-semibold text-gray-900 mb-2">{label}</p>
+              <div className={question.type === 'yes_no' ? 'flex gap-6' : 'space-y-2'}>
+                {options.map(option => (
+                  <label key={option} className="flex items-center gap-3 text-gray-900">
+                    <input
+                      type="radio"
+                      name={id}
+                      value={option}
+                      checked={answer === option}
+                      required={question.required}
+                      onChange={() => set(question.id, option)}
+                      className="accent-[#32487A]"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )
+        }
+
+        return (
+          <div key={question.id}>
+            <label htmlFor={id} className="block text-sm font-semibold text-gray-900 mb-2">{label}</label>
+            <input
+              id={id}
+              type={question.type === 'number' ? 'number' : 'text'}
+              step={question.type === 'number' ? 'any' : undefined}
+              value={answer}
+              required={question.required}
+              maxLength={question.type === 'short_text' ? MAX_ANSWER_LENGTH : undefined}
+              onChange={e => set(question.id, e.target.value)}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+            />
+          </div>
+        )
+      })}
+    </fieldset>
+  )
+}
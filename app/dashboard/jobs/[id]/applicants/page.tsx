@@ -0,0 +1,326 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { supabase } from '@/lib/supabase'
+import type { Application, ApplicationStatus, Job } from '@/lib/supabase'
+import { APPLICATION_STATUSES, EMPLOYER_STATUSES, fetchEmployerApplications, notifiesCandidate, updateApplicationStatus } from '@/lib/applications'
+import type { EmployerStatus } from '@/lib/applications'
+import ApplicationStatusBadge from '@/app/components/ApplicationStatusBadge'
+import ApplicantExportButtons from '@/app/components/ApplicantExportButtons'
+import CvLink from '@/app/components/CvLink'
+
+// Withdrawn applications get their own column at the end, greyed out
+const STATUSES = Object.keys(APPLICATION_STATUSES) as ApplicationStatus[]
+
+// Date inputs give yyyy-mm-dd; "to" includes the whole day
+function appliedWithin(application: Application, from: string, to: string): boolean {
+  const applied = new Date(application.applied_at).getTime()
+  if (from && applied < new Date(`${from}T00:00:00`).getTime()) return false
+  if (to && applied > new Date(`${to}T23:59:59.999`).getTime()) return false
+  return true
+}
+
+export default function ApplicantBoardPage() {
+  const router = useRouter()
+  const { id } = useParams<{ id: string }>()
+  const [loading, setLoading] = useState(true)
+  const [job, setJob] = useState<Job | null>(null)
+  const [applications, setApplications] = useState<Application[]>([])
+  const [appliedFrom, setAppliedFrom] = useState('')
+  const [appliedTo, setAppliedTo] = useState('')
+  const [dragging, setDragging] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null)
+  // A move that emails the candidate waits here for the employer to confirm
+  // it, with an optional personal message
+  const [confirming, setConfirming] = useState<{ application: Application; status: EmployerStatus } | null>(null)
+  const [message, setMessage] = useState('')
+  const [notice, setNotice] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadBoard = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      const user = session?.user
+      if (!user) { router.push('/auth/login'); return }
+
+      const { data: jobData } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      // Only the employer who posted the job sees its applicants
+      if (!jobData || jobData.employer_id !== user.id) { router.push('/dashboard'); return }
+
+      setJob(jobData)
+      setApplications(await fetchEmployerApplications([id]))
+      setLoading(false)
+    }
+
+    loadBoard()
+  }, [id, router])
+
+  const requestMove = (applicationId: string, status: EmployerStatus) => {
+    const application = applications.find(a => a.id === applicationId)
+    if (!application || application.status === status || application.status === 'withdrawn') return
+
+    if (notifiesCandidate(status)) {
+      setMessage('')
+      setConfirming({ application, status })
+    } else {
+      moveApplication(application, status)
+    }
+  }
+
+  const moveApplication = async (previous: Application, status: EmployerStatus, message?: string) => {
+    const applicationId = previous.id
+
+    // Move the card straight away and put it back if the update fails
+    setError('')
+    setNotice('')
+    setApplications(prev => prev.map(a => (a.id === applicationId ? { ...a, status } : a)))
+    try {
+      const result = await updateApplicationStatus(applicationId, { status, message })
+      setApplications(prev => prev.map(a => (a.id === applicationId ? { ...a, ...result } : a)))
+      if (result.emailed) setNotice(`✓ ${previous.applicant_name} has been emailed about this update`)
+    } catch (err) {
+      setApplications(prev => prev.map(a => (a.id === applicationId ? previous : a)))
+      setError(err instanceof Error ? err.message : 'Failed to move application')
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, status: EmployerStatus) => {
+    e.preventDefault()
+    const applicationId = e.dataTransfer.getData('text/plain')
+    setDragging(null)
+    setDropTarget(null)
+    if (applicationId) requestMove(applicationId, status)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#f0f6ff] flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-4xl mb-4">⏳</div>
+          <p className="text-gray-600">Loading applicants...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const visible = applications.filter(a => appliedWithin(a, appliedFrom, appliedTo))
+
+  return (
+    <div className="min-h-screen bg-[#f0f6ff] py-12 px-4">
+      <div className="max-w-[1400px] mx-auto">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-[#32487A] hover:text-[#4b8ec2] mb-6 font-medium"
+        >
+          ← Back to dashboard
+        </Link>
+
+        {/* Header */}
+        <div className="bg-white rounded-[25px] shadow-sm p-6 mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Applicants</h1>
+            <p className="text-gray-700 mt-1">
+              <Link href={`/jobs/${id}`} className="font-semibold text-[#32487A] hover:text-[#4b8ec2]">{job?.title}</Link>
+              {' '}• {visible.length === applications.length
+                ? `${applications.length} applications`
+                : `${visible.length} of ${applications.length} applications`}
+            </p>
+            {job && applications.length > 0 && (
+              <div className="mt-3">
+                <ApplicantExportButtons jobId={job.id} jobTitle={job.title} />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="applied-from" className="block text-sm font-semibold text-gray-900 mb-1">Applied from</label>
+              <input
+                id="applied-from"
+                type="date"
+                value={appliedFrom}
+                max={appliedTo || undefined}
+                onChange={e => setAppliedFrom(e.target.value)}
+                className="px-3 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              />
+            </div>
+            <div>
+              <label htmlFor="applied-to" className="block text-sm font-semibold text-gray-900 mb-1">to</label>
+              <input
+                id="applied-to"
+                type="date"
+                value={appliedTo}
+                min={appliedFrom || undefined}
+                onChange={e => setAppliedTo(e.target.value)}
+                className="px-3 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              />
+            </div>
+            {(appliedFrom || appliedTo) && (
+              <button
+                onClick={() => { setAppliedFrom(''); setAppliedTo('') }}
+                className="px-3 py-2 text-sm font-medium text-gray-600 hover:text-[#32487A] transition"
+              >
+                Clear dates
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm text-green-700">{notice}</p>
+          </div>
+        )}
+
+        {/* Board */}
+        <div className="grid grid-flow-col auto-cols-[minmax(260px,1fr)] gap-4 overflow-x-auto pb-4">
+          {STATUSES.map(status => {
+            const column = visible.filter(a => a.status === status)
+            const withdrawn = status === 'withdrawn'
+            return (
+              <section
+                key={status}
+                aria-label={APPLICATION_STATUSES[status].label}
+                onDragOver={withdrawn ? undefined : e => { e.preventDefault(); setDropTarget(status) }}
+                onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+                onDrop={withdrawn ? undefined : e => handleDrop(e, status)}
+                className={`rounded-[25px] p-4 min-h-[300px] transition ${
+                  dropTarget === status ? 'bg-[#dce8f5] ring-2 ring-[#4b8ec2]' : withdrawn ? 'bg-gray-100/60' : 'bg-white/60'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <ApplicationStatusBadge status={status} />
+                  <span className="text-sm font-semibold text-gray-500">{column.length}</span>
+                </div>
+
+                <div className="space-y-3">
+                  {column.map(app => (
+                    <article
+                      key={app.id}
+                      draggable={!withdrawn}
+                      onDragStart={e => {
+                        e.dataTransfer.setData('text/plain', app.id)
+                        e.dataTransfer.effectAllowed = 'move'
+                        setDragging(app.id)
+                      }}
+                      onDragEnd={() => { setDragging(null); setDropTarget(null) }}
+                      className={`bg-white rounded-lg border-2 border-gray-200 p-4 shadow-sm transition ${
+                        withdrawn ? 'opacity-60' : 'cursor-grab active:cursor-grabbing hover:border-[#4b8ec2]'
+                      } ${dragging === app.id ? 'opacity-50' : ''}`}
+                    >
+                      <h3 className="font-semibold text-gray-900">{app.applicant_name}</h3>
+                      <a href={`mailto:${app.applicant_email}`} className="text-sm text-[#32487A] hover:underline break-all">
+                        {app.applicant_email}
+                      </a>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Applied {new Date(app.applied_at).toLocaleDateString()}
+                      </p>
+                      {app.cover_letter && (
+                        <p className="text-sm text-gray-700 mt-2 line-clamp-3">{app.cover_letter}</p>
+                      )}
+                      <div className="flex items-center justify-between gap-2 mt-3">
+                        {app.cv_url ? (
+                          <CvLink
+                            path={app.cv_url}
+                            className="text-sm font-semibold text-[#32487A] border-2 border-[#32487A] px-3 py-1 rounded-lg hover:bg-[#dce8f5] transition"
+                          >
+                            View CV
+                          </CvLink>
+                        ) : <span />}
+                        {/* Dragging needs a mouse; this works everywhere */}
+                        {!withdrawn && (
+                          <select
+                            value={app.status}
+                            onChange={e => requestMove(app.id, e.target.value as EmployerStatus)}
+                            aria-label={`Move ${app.applicant_name}`}
+                            className="text-sm px-2 py-1 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-700"
+                          >
+                            {EMPLOYER_STATUSES.map(s => (
+                              <option key={s} value={s}>{APPLICATION_STATUSES[s].label}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </article>
+                  ))}
+                  {column.length === 0 && (
+                    <p className="text-sm text-gray-400 text-center py-8">No applicants</p>
+                  )}
+                </div>
+              </section>
+            )
+          })}
+        </div>
+      </div>
+
+      {confirming && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="confirm-move-title"
+            className="bg-white rounded-[25px] shadow-lg p-6 w-full max-w-lg space-y-4"
+          >
+            <div>
+              <h2 id="confirm-move-title" className="text-xl font-bold text-gray-900">
+                {APPLICATION_STATUSES[confirming.status].action} {confirming.application.applicant_name}?
+              </h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {confirming.application.applicant_name} will be emailed about this update unless they have turned
+                application emails off.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="confirm-move-message" className="block text-sm font-semibold text-gray-900 mb-1">
+                Personal message (optional)
+              </label>
+              <textarea
+                id="confirm-move-message"
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                rows={4}
+                maxLength={2000}
+                autoFocus
+                placeholder={confirming.status === 'rejected'
+                  ? 'A kind standard message is always included. Add anything personal here.'
+                  : 'Added to the update email the candidate receives'}
+                className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900 text-sm"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setConfirming(null)}
+                className="px-4 py-2 border-2 border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:border-gray-400 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  moveApplication(confirming.application, confirming.status, message)
+                  setConfirming(null)
+                }}
+                className={`px-4 py-2 text-white rounded-lg text-sm font-semibold transition ${
+                  confirming.status === 'rejected' ? 'bg-red-600 hover:bg-red-700' : 'bg-[#32487A] hover:bg-[#4b8ec2]'
+                }`}
+              >
+                {APPLICATION_STATUSES[confirming.status].action} and email
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,17 @@ import { useEffect, useState, Suspense } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
-import type { Profile, Job, Application } from '@/lib/supabase'
+import type { Profile, Job, Application, SavedJob, JobAlert } from '@/lib/supabase'
+import { fetchSavedJobs } from '@/lib/saved-jobs'
+import { APPLICATION_COLUMNS, fetchEmployerApplications, withdrawApplication } from '@/lib/applications'
+import type { StatusUpdateResult } from '@/lib/applications'
+import SavedJobsList from '@/app/components/SavedJobsList'
+import JobAlertsList from '@/app/components/JobAlertsList'
+import ScreeningAnswersList from '@/app/components/ScreeningAnswersList'
+import ApplicationStatusBadge from '@/app/components/ApplicationStatusBadge'
+import ApplicationStatusControls from '@/app/components/ApplicationStatusControls'
+import ApplicationTimeline from '@/app/components/ApplicationTimeline'
+import CvLink from '@/app/components/CvLink'
 
 function SuccessBanner() {
   const searchParams = useSearchParams()
@@ -27,11 +37,21 @@ export default function DashboardPage() {
   const [applications, setApplications] = useState<Application[]>([])
 const [employerApplications, setEmployerApplications] = useState<Application[]>([])
   const [showApplications, setShowApplications] = useState(false)
+  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
+  const [appliedJobIds, setAppliedJobIds] = useState<Set<string>>(new Set())
+  const [jobAlerts, setJobAlerts] = useState<JobAlert[]>([])
 
   useEffect(() => {
     checkUser()
   }, [])
 
+  // Links like /dashboard#application-<id> point at content that only exists
+  // once the dashboard has loaded, so scroll to it then
+  useEffect(() => {
+    if (loading || !window.location.hash) return
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView({ behavior: 'smooth' })
+  }, [loading])
+
   const checkUser = async () => {
     try {
       // Check if user is logged in
@@ -67,23 +87,30 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
           // Fetch all applications for this employer's jobs
           if (jobsData && jobsData.length > 0) {
             const jobIds = jobsData.map((j) => j.id)
-            const { data: empApps } = await supabase
-              .from('applications')
-              .select('*, job:jobs(*)')
-              .in('job_id', jobIds)
-              .order('applied_at', { ascending: false })
-            setEmployerApplications(empApps || [])
+            setEmployerApplications(await fetchEmployerApplications(jobIds))
           }
         } else {
           // Fetch candidate's applications
           const { data: appsData } = await supabase
             .from('applications')
-            .select('*, job:jobs(*)')
+            .select(`${APPLICATION_COLUMNS}, job:jobs(*), status_history:application_status_history(*)`)
             .eq('candidate_id', user.id)
             .order('applied_at', { ascending: false })
+            .order('changed_at', { referencedTable: 'status_history', ascending: true })
+
+          setApplications((appsData || []) as unknown as Application[])
 
-          setApplications(appsData || [])
+          const saved = await fetchSavedJobs(user.id)
+          setSavedJobs(saved.savedJobs)
+          setAppliedJobIds(saved.appliedJobIds)
 
+          const { data: alertsData } = await supabase
+            .from('job_alerts')
+            .select('*')
+            .eq('candidate_id', user.id)
+            .order('created_at', { ascending: false })
+
+          setJobAlerts(alertsData || [])
         }
       }
     } catch (error) {
@@ -98,6 +125,21 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
     router.push('/')
   }
 
+  const handleStatusUpdated = (applicationId: string, result: StatusUpdateResult) => {
+    setEmployerApplications((prev) => prev.map((a) => (a.id === applicationId ? { ...a, ...result } : a)))
+  }
+
+  const handleWithdraw = async (application: Application) => {
+    if (!confirm(`Withdraw your application for ${application.job?.title || 'this job'}? The employer will be told, and you won't be able to apply to this job again.`)) return
+
+    try {
+      const result = await withdrawApplication(application.id)
+      setApplications((prev) => prev.map((a) => (a.id === application.id ? { ...a, ...result } : a)))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to withdraw application')
+    }
+  }
+
   const handleDeleteJob = async (jobId: string) => {
     if (!confirm('Are you sure you want to delete this job? This cannot be undone.')) return
 
@@ -243,6 +285,12 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
                           >
                             View
                           </Link>
+                          <Link
+                            href={`/dashboard/jobs/${job.id}/applicants`}
+                            className="px-4 py-2 border-2 border-gray-300 rounded-lg text-sm font-semibold hover:border-[#4b8ec2]"
+                          >
+                            Applicants
+                          </Link>
                           <Link
                             href={`/jobs/${job.id}/edit`}
                             className="px-4 py-2 border-2 border-[#4b8ec2] text-[#32487A] rounded-lg text-sm font-semibold hover:bg-[#dce8f5] transition"
@@ -282,7 +330,10 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
                 {employerApplications.length > 0 ? (
                   <div className="space-y-4">
                     {employerApplications.map((app) => (
-                      <div key={app.id} className="border-2 border-gray-200 rounded-lg p-4">
+                      <div
+                        key={app.id}
+                        className={`border-2 border-gray-200 rounded-lg p-4 ${app.status === 'withdrawn' ? 'opacity-60 bg-gray-50' : ''}`}
+                      >
                         <div className="flex justify-between items-start flex-wrap gap-3">
                           <div className="flex-1 min-w-0">
                             <div className="font-semibold text-gray-900">{app.applicant_name}</div>
@@ -300,36 +351,31 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
                             {app.cover_letter && (
                               <p className="text-sm text-gray-700 mt-2 line-clamp-2">{app.cover_letter}</p>
                             )}
+                            <ScreeningAnswersList answers={app.screening_answers || []} />
                             <div className="text-xs text-gray-400 mt-1">
                               Applied {new Date(app.applied_at).toLocaleDateString()}
                             </div>
                           </div>
                           <div className="flex flex-col items-end gap-2">
-                            <span
-                              className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                                app.status === 'pending'
-                                  ? 'bg-yellow-100 text-yellow-700'
-                                  : app.status === 'shortlisted'
-                                  ? 'bg-green-100 text-green-700'
-                                  : app.status === 'reviewed'
-                                  ? 'bg-[#dce8f5] text-[#32487A]'
-                                  : 'bg-gray-100 text-gray-800'
-                              }`}
-                            >
-                              {app.status}
-                            </span>
+                            <ApplicationStatusBadge status={app.status} />
                             {app.cv_url && (
-                              <a
-                                href={app.cv_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
+                              <CvLink
+                                path={app.cv_url}
                                 className="text-sm font-semibold text-[#32487A] border-2 border-[#32487A] px-3 py-1 rounded-lg hover:bg-[#dce8f5] transition"
                               >
                                 View CV
-                              </a>
+                              </CvLink>
                             )}
                           </div>
                         </div>
+                        <ApplicationStatusControls
+                          application={app}
+                          onUpdated={(result) => handleStatusUpdated(app.id, result)}
+                        />
+                        <details className="mt-2">
+                          <summary className="text-sm text-gray-500 cursor-pointer hover:text-[#32487A]">History</summary>
+                          <ApplicationTimeline history={app.status_history || []} />
+                        </details>
                       </div>
                     ))}
                   </div>
@@ -380,7 +426,10 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
                   {applications.map((app) => (
                     <div
                       key={app.id}
-                      className="border-2 border-gray-200 rounded-lg p-4"
+                      id={`application-${app.id}`}
+                      className={`border-2 border-gray-200 rounded-lg p-4 scroll-mt-24 target:border-[#4b8ec2] target:bg-[#F5F7FC] ${
+                        app.status === 'withdrawn' ? 'opacity-60' : ''
+                      }`}
                     >
                       <div className="flex justify-between items-start">
                         <div>
@@ -393,20 +442,19 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
                           <p className="text-sm text-gray-700 mt-2">
                             Applied {new Date(app.applied_at).toLocaleDateString()}
                           </p>
+                          <ApplicationTimeline history={app.status_history || []} />
+                        </div>
+                        <div className="flex flex-col items-end gap-2">
+                          <ApplicationStatusBadge status={app.status} />
+                          {app.status !== 'withdrawn' && (
+                            <button
+                              onClick={() => handleWithdraw(app)}
+                              className="text-sm font-semibold text-gray-500 hover:text-red-600 transition"
+                            >
+                              Withdraw
+                            </button>
+                          )}
                         </div>
-                        <span
-                          className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                            app.status === 'pending'
-                              ? 'bg-yellow-100 text-yellow-700'
-                              : app.status === 'shortlisted'
-                              ? 'bg-green-100 text-green-700'
-                              : app.status === 'reviewed'
-                              ? 'bg-[#dce8f5] text-[#32487A]'
-                              : 'bg-gray-100 text-gray-800'
-                          }`}
-                        >
-                          {app.status}
-                        </span>
                       </div>
                     </div>
                   ))}
@@ -425,6 +473,46 @@ const [employerApplications, setEmployerApplications] = useState<Application[]>(
               )}
             </div>
 
+            {/* Saved Jobs */}
+            <div className="bg-white rounded-[25px] shadow-sm p-6 mt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-gray-900">Saved Jobs</h2>
+                {savedJobs.length > 3 && (
+                  <Link href="/saved-jobs" className="text-sm font-semibold text-[#32487A] hover:text-[#4b8ec2] transition">
+                    View all {savedJobs.length} →
+                  </Link>
+                )}
+              </div>
+
+              {savedJobs.length > 0 ? (
+                <SavedJobsList
+                  savedJobs={savedJobs.slice(0, 3)}
+                  appliedJobIds={appliedJobIds}
+                  onRemove={(jobId) => setSavedJobs((prev) => prev.filter((s) => s.job_id !== jobId))}
+                />
+              ) : (
+                <div className="text-center py-10 text-gray-500">
+                  No saved jobs yet — tap ☆ on any job to keep it for later.
+                </div>
+              )}
+            </div>
+
+            {/* Job Alerts */}
+            <div className="bg-white rounded-[25px] shadow-sm p-6 mt-6">
+              <h2 className="text-2xl font-bold mb-4 text-gray-900">Job Alerts</h2>
+
+              {jobAlerts.length > 0 ? (
+                <JobAlertsList
+                  alerts={jobAlerts}
+                  onRemove={(alertId) => setJobAlerts((prev) => prev.filter((a) => a.id !== alertId))}
+                />
+              ) : (
+                <div className="text-center py-10 text-gray-500">
+                  No job alerts yet — search the <Link href="/jobs" className="text-[#32487A] font-semibold hover:text-[#4b8ec2]">job listings</Link> and choose 🔔 Create job alert to get new matches by email.
+                </div>
+              )}
+            </div>
+
           </>
         )}
       </div>
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { mailboxEmlPath } from '@/lib/local-mailbox'
+
+// A message from the local mailbox as an .eml file, to open in a mail client
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const { id } = await params
+  const path = mailboxEmlPath(id)
+  const eml = path && await readFile(path).catch(() => null)
+  if (!eml) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  return new NextResponse(eml, {
+    headers: {
+      'Content-Type': 'message/rfc822',
+      'Content-Disposition': `attachment; filename="${id}.eml"`,
+    },
+  })
+}
@@ -0,0 +1,72 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { readMailboxMessage } from '@/lib/local-mailbox'
+
+export const metadata = { title: 'Mailbox (dev) – OsteoJob' }
+export const dynamic = 'force-dynamic'
+
+export default async function MailboxMessagePage({ params }: { params: Promise<{ id: string }> }) {
+  if (process.env.NODE_ENV === 'production') notFound()
+
+  const { id } = await params
+  const message = await readMailboxMessage(id)
+  if (!message) notFound()
+
+  const headers: [string, string][] = [
+    ['From', message.from],
+    ['To', message.to.join(', ')],
+    ...(message.replyTo ? [['Reply-To', message.replyTo] as [string, string]] : []),
+    ['Date', new Date(message.date).toLocaleString()],
+    ...Object.entries(message.headers),
+  ]
+
+  return (
+    <main className="min-h-screen bg-[#f0f6ff] py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <Link
+          href="/dev/mailbox"
+          className="inline-flex items-center text-[#32487A] hover:text-[#4b8ec2] mb-6 font-medium"
+        >
+          ← Back to mailbox
+        </Link>
+
+        <div className="bg-white rounded-[25px] shadow-sm p-8 mb-6">
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+            <h1 className="text-2xl font-bold text-gray-900">{message.subject}</h1>
+            <a
+              href={`/dev/mailbox/${message.id}/eml`}
+              className="px-4 py-2 border-2 border-[#4b8ec2] text-[#32487A] rounded-lg text-sm font-semibold hover:bg-[#dce8f5] transition"
+            >
+              Download .eml
+            </a>
+          </div>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            {headers.map(([name, value]) => (
+              <div key={name} className="contents">
+                <dt className="font-semibold text-gray-500">{name}</dt>
+                <dd className="text-gray-900 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <div className="bg-white rounded-[25px] shadow-sm p-4 mb-6">
+          {/* Sandboxed: no scripts, and links can't navigate this page */}
+          <iframe
+            title="HTML version"
+            srcDoc={message.html}
+            sandbox=""
+            className="w-full h-[800px] rounded-lg"
+          />
+        </div>
+
+        {message.text && (
+          <div className="bg-white rounded-[25px] shadow-sm p-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Plain text</h2>
+            <pre className="whitespace-pre-wrap text-sm text-gray-700">{message.text}</pre>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
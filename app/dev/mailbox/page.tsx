@@ -0,0 +1,44 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { listMailbox } from '@/lib/local-mailbox'
+
+export const metadata = { title: 'Mailbox (dev) – OsteoJob' }
+export const dynamic = 'force-dynamic'
+
+// Emails sent with the local transport (see lib/email-transports.ts)
+export default async function MailboxPage() {
+  if (process.env.NODE_ENV === 'production') notFound()
+
+  const messages = await listMailbox()
+
+  return (
+    <main className="min-h-screen bg-[#f0f6ff] py-12 px-4">
+      <div className="max-w-4xl mx-auto bg-white rounded-[25px] shadow-sm p-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-1">Mailbox</h1>
+        <p className="text-sm text-gray-500 mb-8">
+          Emails sent in development with the local transport, newest first. Delete <code>.mailbox/</code> to clear it.
+        </p>
+
+        {messages.length === 0 ? (
+          <p className="text-gray-600 text-center py-12">No emails yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {messages.map(message => (
+              <li key={message.id}>
+                <Link
+                  href={`/dev/mailbox/${message.id}`}
+                  className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1 py-4 hover:bg-[#F5F7FC] px-2 rounded-lg transition"
+                >
+                  <span className="font-semibold text-gray-900">{message.subject}</span>
+                  <span className="text-sm text-gray-500">
+                    {message.to.join(', ')} • {new Date(message.date).toLocaleString()}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -4,7 +4,17 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import type { Job } from '@/lib/supabase'
+import type { Job, Profile } from '@/lib/supabase'
+import { fetchOwnApplication, submitApplication } from '@/lib/applications'
+import type { OwnApplication } from '@/lib/applications'
+import { CV_ACCEPT, cvFileError, describeCv, removeCv, uploadCv } from '@/lib/cv'
+import { applicationFieldErrors, applicationFormSchema } from '@/lib/application-form'
+import type { ApplicationField, ApplicationFieldErrors } from '@/lib/application-form'
+import { screeningAnswersError } from '@/lib/screening'
+import type { ScreeningAnswerInput } from '@/lib/screening'
+import AlreadyAppliedBanner from '@/app/components/AlreadyAppliedBanner'
+import ScreeningQuestionsFields from '@/app/components/ScreeningQuestionsFields'
+import CvLink from '@/app/components/CvLink'
 
 export default function ApplyPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter()
@@ -13,9 +23,16 @@ export default function ApplyPage({ params }: { params: Promise<{ id: string }>
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const [cvError, setCvError] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<ApplicationFieldErrors>({})
   const [success, setSuccess] = useState(false)
   const [user, setUser] = useState<any>(null)
+  const [profile, setProfile] = useState<Pick<Profile, 'full_name' | 'phone' | 'cv_url'> | null>(null)
+  const [useSavedCv, setUseSavedCv] = useState(false)
   const [cvFile, setCvFile] = useState<File | null>(null)
+  const [saveAsDefaultCv, setSaveAsDefaultCv] = useState(false)
+  const [screeningAnswers, setScreeningAnswers] = useState<ScreeningAnswerInput>({})
+  const [existingApplication, setExistingApplication] = useState<OwnApplication | null>(null)
 
   useEffect(() => {
     const init = async () => {
@@ -46,6 +63,18 @@ export default function ApplyPage({ params }: { params: Promise<{ id: string }>
         .single()
 
       setJob(jobData)
+
+      // Pre-fill the form from the candidate's profile
+      const { data: profileData } = await supabase
+        .from('profiles')
+        .select('full_name, phone, cv_url')
+        .eq('id', authUser.id)
+        .maybeSingle()
+
+      setProfile(profileData)
+      setUseSavedCv(Boolean(profileData?.cv_url))
+      setSaveAsDefaultCv(!profileData?.cv_url)
+      setExistingApplication(await fetchOwnApplication(id, authUser.id))
     } catch (err) {
       console.error('Error:', err)
       setError('Could not load job details')
@@ -58,58 +87,67 @@ export default function ApplyPage({ params }: { params: Promise<{ id: string }>
     e.preventDefault()
     setSubmitting(true)
     setError('')
+    setFieldErrors({})
 
     const formData = new FormData(e.currentTarget)
-    
-    try {
-      let cvUrl: string | null = null
-
-      // Upload CV if provided
-      if (cvFile) {
-        const fileExt = cvFile.name.split('.').pop()
-        const fileName = `${user.id}-${Date.now()}.${fileExt}`
-
-        const { error: uploadError } = await supabase.storage
-          .from('cvs')
-          .upload(fileName, cvFile)
-
-        if (uploadError) throw new Error(`CV upload failed: ${uploadError.message}`)
-
-        const { data: { publicUrl } } = supabase.storage
-          .from('cvs')
-          .getPublicUrl(fileName)
+    const fields = {
+      jobId,
+      name: String(formData.get('name') ?? ''),
+      email: String(formData.get('email') ?? ''),
+      phone: String(formData.get('phone') ?? ''),
+      coverLetter: String(formData.get('coverLetter') ?? ''),
+      screeningAnswers,
+    }
 
-        cvUrl = publicUrl
+    try {
+      // Check the rest of the form before uploading a new CV
+      const precheck = applicationFormSchema.omit({ cvPath: true }).safeParse(fields)
+      const screeningError = screeningAnswersError(job?.screening_questions || [], screeningAnswers)
+      if (!precheck.success || screeningError) {
+        setFieldErrors({
+          ...(precheck.success ? {} : applicationFieldErrors(precheck.error)),
+          ...(screeningError && { screeningAnswers: screeningError }),
+        })
+        return
       }
 
-      const { error: insertError } = await supabase
-        .from('applications')
-        .insert({
-          job_id: jobId,
-          candidate_id: user.id,
-          applicant_name: formData.get('name') as string,
-          applicant_email: formData.get('email') as string,
-          applicant_phone: formData.get('phone') as string,
-          cover_letter: formData.get('coverLetter') as string,
-          cv_url: cvUrl,
-          status: 'pending'
-        })
+      let cvPath: string
+      let uploadedCvPath: string | null = null
+
+      if (useSavedCv && profile?.cv_url) {
+        cvPath = profile.cv_url
+      } else if (cvFile) {
+        try {
+          uploadedCvPath = await uploadCv(cvFile)
+        } catch (err) {
+          setFieldErrors({ cvPath: err instanceof Error ? err.message : 'CV upload failed' })
+          return
+        }
+        cvPath = uploadedCvPath
+      } else {
+        setFieldErrors({ cvPath: 'Please attach your CV' })
+        return
+      }
 
-      if (insertError) throw insertError
-
-      // Fire-and-forget email notification to employer
-      fetch('/api/notify-application', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jobId,
-          applicantName: formData.get('name'),
-          applicantEmail: formData.get('email'),
-          applicantPhone: formData.get('phone'),
-          coverLetter: formData.get('coverLetter'),
-          cvUrl,
-        }),
-      }).catch(() => {}) // never block the user if email fails
+      const result = await submitApplication({
+        ...fields,
+        cvPath,
+        saveAsDefaultCv: Boolean(uploadedCvPath) && saveAsDefaultCv,
+      })
+
+      if (result.error !== undefined) {
+        // Nothing was saved, so drop the CV we just uploaded
+        if (uploadedCvPath) await removeCv(uploadedCvPath)
+
+        if (result.duplicate) {
+          // Applied already (e.g. in another tab)
+          setExistingApplication(await fetchOwnApplication(jobId, user.id))
+          return
+        }
+        setFieldErrors(result.fieldErrors)
+        setError(result.error)
+        return
+      }
 
       setSuccess(true)
 
@@ -118,13 +156,16 @@ export default function ApplyPage({ params }: { params: Promise<{ id: string }>
         router.push('/dashboard')
       }, 3000)
 
-    } catch (err: any) {
-      setError(err.message || 'Failed to submit application')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit application')
     } finally {
       setSubmitting(false)
     }
   }
 
+  const fieldError = (field: ApplicationField) =>
+    fieldErrors[field] && <p className="text-sm text-red-600 mt-1">{fieldErrors[field]}</p>
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#f0f6ff] flex items-center justify-center">
@@ -193,109 +234,181 @@ export default function ApplyPage({ params }: { params: Promise<{ id: string }>
           </p>
         </div>
 
-        <div className="bg-white rounded-[25px] shadow-lg p-8">
-          {error && (
-            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
-              <p className="text-sm text-red-600">{error}</p>
-            </div>
-          )}
-
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                Full Name *
-              </label>
-              <input
-                type="text"
-                name="name"
-                required
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="John Doe"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                Email *
-              </label>
-              <input
-                type="email"
-                name="email"
-                required
-                defaultValue={user?.email}
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="you@example.com"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                Phone Number
-              </label>
-              <input
-                type="tel"
-                name="phone"
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="+44 123 456 7890"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                CV / Resume *
-              </label>
-              <input
-                type="file"
-                accept=".pdf,.doc,.docx"
-                required
-                onChange={(e) => setCvFile(e.target.files?.[0] || null)}
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] file:mr-4 file:py-1 file:px-4 file:rounded file:border-0 file:bg-[#F5F7FC] file:text-[#32487A] file:font-semibold hover:file:bg-[#dce8f5]"
-              />
-              <p className="text-sm text-gray-700 mt-1">
-                PDF, DOC or DOCX — max 5MB
-              </p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                Cover Letter *
-              </label>
-              <textarea
-                name="coverLetter"
-                required
-                rows={8}
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="Tell the employer why you're interested in this position..."
-              />
-              <p className="text-sm text-gray-700 mt-1">
-                Explain your relevant experience and why you'd be a great fit
-              </p>
-            </div>
-
-            <div className="bg-[#F5F7FC] border border-blue-200 rounded-lg p-4">
-              <p className="text-sm text-[#2d436f]">
-                📧 Your application will be sent directly to the employer's email.
-                They will contact you if you're a good fit for the role.
-              </p>
-            </div>
-
-            <div className="flex gap-4">
-              <button
-                type="submit"
-                disabled={submitting}
-                className="flex-1 bg-[#32487A] text-white py-3 rounded-full font-semibold hover:bg-[#4b8ec2] transition disabled:opacity-50"
-              >
-                {submitting ? 'Submitting...' : 'Submit Application'}
-              </button>
-              <Link
-                href={`/jobs/${jobId}`}
-                className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold hover:border-gray-400 transition"
-              >
-                Cancel
-              </Link>
-            </div>
-          </form>
-        </div>
+        {existingApplication ? (
+          <AlreadyAppliedBanner application={existingApplication} />
+        ) : (
+          <div className="bg-white rounded-[25px] shadow-lg p-8">
+            {error && (
+              <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  Full Name *
+                </label>
+                <input
+                  type="text"
+                  name="name"
+                  required
+                  defaultValue={profile?.full_name || ''}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                  placeholder="John Doe"
+                />
+                {fieldError('name')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  Email *
+                </label>
+                <input
+                  type="email"
+                  name="email"
+                  required
+                  defaultValue={user?.email}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                  placeholder="you@example.com"
+                />
+                {fieldError('email')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  Phone Number
+                </label>
+                <input
+                  type="tel"
+                  name="phone"
+                  defaultValue={profile?.phone || ''}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                  placeholder="+44 123 456 7890"
+                />
+                {fieldError('phone')}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  CV / Resume *
+                </label>
+                {profile?.cv_url && (
+                  <div className="space-y-2 mb-3">
+                    <label className="flex items-center gap-3 text-gray-900">
+                      <input
+                        type="radio"
+                        name="cvChoice"
+                        checked={useSavedCv}
+                        onChange={() => setUseSavedCv(true)}
+                        className="accent-[#32487A]"
+                      />
+                      <span>
+                        Use my saved CV{' '}
+                        <CvLink path={profile.cv_url} className="text-sm text-[#32487A] hover:underline">
+                          ({describeCv(profile.cv_url)})
+                        </CvLink>
+                      </span>
+                    </label>
+                    <label className="flex items-center gap-3 text-gray-900">
+                      <input
+                        type="radio"
+                        name="cvChoice"
+                        checked={!useSavedCv}
+                        onChange={() => setUseSavedCv(false)}
+                        className="accent-[#32487A]"
+                      />
+                      Upload a new CV
+                    </label>
+                  </div>
+                )}
+                {!useSavedCv && (
+                  <>
+                    <input
+                      type="file"
+                      accept={CV_ACCEPT}
+                      required
+                      onChange={(e) => {
+                        const file = e.target.files?.[0] || null
+                        setCvFile(file)
+                        setCvError(file ? cvFileError(file) || '' : '')
+                      }}
+                      className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] file:mr-4 file:py-1 file:px-4 file:rounded file:border-0 file:bg-[#F5F7FC] file:text-[#32487A] file:font-semibold hover:file:bg-[#dce8f5]"
+                    />
+                    {cvError || fieldErrors.cvPath ? (
+                      <p className="text-sm text-red-600 mt-1">{cvError || fieldErrors.cvPath}</p>
+                    ) : (
+                      <p className="text-sm text-gray-700 mt-1">
+                        PDF, DOC or DOCX — max 5MB
+                      </p>
+                    )}
+                    <label className="flex items-center gap-2 mt-3 text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={saveAsDefaultCv}
+                        onChange={(e) => setSaveAsDefaultCv(e.target.checked)}
+                        className="accent-[#32487A]"
+                      />
+                      {profile?.cv_url ? 'Replace my saved CV with this one' : 'Save this CV to my profile for future applications'}
+                    </label>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-2">
+                  Cover Letter *
+                </label>
+                <textarea
+                  name="coverLetter"
+                  required
+                  rows={8}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                  placeholder="Tell the employer why you're interested in this position..."
+                />
+                {fieldError('coverLetter') || (
+                  <p className="text-sm text-gray-700 mt-1">
+                    Explain your relevant experience and why you'd be a great fit
+                  </p>
+                )}
+              </div>
+
+              {job.screening_questions?.length > 0 && (
+                <div>
+                  <ScreeningQuestionsFields
+                    questions={job.screening_questions}
+                    value={screeningAnswers}
+                    onChange={setScreeningAnswers}
+                  />
+                  {fieldError('screeningAnswers')}
+                </div>
+              )}
+
+              <div className="bg-[#F5F7FC] border border-blue-200 rounded-lg p-4">
+                <p className="text-sm text-[#2d436f]">
+                  📧 Your application will be sent directly to the employer's email.
+                  They will contact you if you're a good fit for the role.
+                </p>
+              </div>
+
+              <div className="flex gap-4">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="flex-1 bg-[#32487A] text-white py-3 rounded-full font-semibold hover:bg-[#4b8ec2] transition disabled:opacity-50"
+                >
+                  {submitting ? 'Submitting...' : 'Submit Application'}
+                </button>
+                <Link
+                  href={`/jobs/${jobId}`}
+                  className="px-6 py-3 border-2 border-gray-300 rounded-lg font-semibold hover:border-gray-400 transition"
+                >
+                  Cancel
+                </Link>
+              </div>
+            </form>
+          </div>
+        )}
       </div>
     </div>
   )
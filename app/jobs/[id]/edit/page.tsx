@@ -4,6 +4,14 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
+import SalaryFields from '@/app/components/SalaryFields'
+import ScreeningQuestionsEditor from '@/app/components/ScreeningQuestionsEditor'
+import { authHeaders } from '@/lib/auth'
+import { fetchCoordinates } from '@/lib/geocoding'
+import { COUNTRY_CURRENCIES, emptySalaryInput, salaryInputFromJob, salaryInputToColumns } from '@/lib/salary'
+import type { SalaryInput } from '@/lib/salary'
+import { cleanScreeningQuestions } from '@/lib/screening'
+import type { ScreeningQuestion } from '@/lib/screening'
 
 export default function EditJobPage() {
   const router = useRouter()
@@ -21,10 +29,11 @@ export default function EditJobPage() {
     category: 'All Specialties',
     country: '',
     city: '',
-    salary: '',
     description: '',
     featuredImage: '',
   })
+  const [salary, setSalary] = useState<SalaryInput>(emptySalaryInput())
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([])
 
   useEffect(() => {
     loadJob()
@@ -53,10 +62,12 @@ export default function EditJobPage() {
         category: job.category || 'All Specialties',
         country: job.location_country || '',
         city: job.location_city || '',
-        salary: job.salary_range || '',
         description: job.description || '',
         featuredImage: job.featured_image || '',
       })
+      // Legacy jobs with only free-text salary_range are parsed into the structured fields
+      setSalary(salaryInputFromJob(job))
+      setScreeningQuestions(job.screening_questions || [])
       if (job.featured_image) setImagePreview(job.featured_image)
     } catch (err) {
       console.error(err)
@@ -90,6 +101,9 @@ export default function EditJobPage() {
       const user = session?.user
       if (!user) throw new Error('Not authenticated')
 
+      const salaryColumns = salaryInputToColumns(salary)
+      const screening = cleanScreeningQuestions(screeningQuestions)
+      if (screening.error) throw new Error(screening.error)
       let imageUrl = form.featuredImage
 
       // Upload new image if one was selected
@@ -110,6 +124,8 @@ export default function EditJobPage() {
         imageUrl = publicUrl
       }
 
+      const coordinates = await fetchCoordinates(form.city, form.country, await authHeaders())
+
       const { error: updateError } = await supabase
         .from('jobs')
         .update({
@@ -119,7 +135,9 @@ export default function EditJobPage() {
           category: form.category,
           location_country: form.country,
           location_city: form.city,
-          salary_range: form.salary,
+          ...coordinates,
+          ...salaryColumns,
+          screening_questions: screening.questions,
           featured_image: imageUrl,
           updated_at: new Date().toISOString(),
         })
@@ -250,7 +268,12 @@ export default function EditJobPage() {
                   name="country"
                   required
                   value={form.country}
-                  onChange={handleChange}
+                  onChange={(e) => {
+                    handleChange(e)
+                    // Follow the country's currency until an amount has been entered
+                    const currency = COUNTRY_CURRENCIES[e.target.value]
+                    setSalary(prev => prev.min || prev.max || !currency ? prev : { ...prev, currency })
+                  }}
                   className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
                 >
                   <option value="">Select country...</option>
@@ -300,19 +323,8 @@ export default function EditJobPage() {
               </div>
             </div>
 
-            {/* Salary Range */}
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">Salary Range</label>
-              <input
-                type="text"
-                name="salary"
-                value={form.salary}
-                onChange={handleChange}
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="e.g. £30,000 - £45,000"
-              />
-              <p className="text-sm text-gray-700 mt-1">Optional — helps attract the right candidates</p>
-            </div>
+            {/* Salary */}
+            <SalaryFields value={salary} onChange={setSalary} />
 
             {/* Job Description */}
             <div>
@@ -328,6 +340,9 @@ export default function EditJobPage() {
               />
             </div>
 
+            {/* Screening Questions */}
+            <ScreeningQuestionsEditor value={screeningQuestions} onChange={setScreeningQuestions} />
+
             {/* Buttons */}
             <div className="flex gap-4 pt-4">
               <button
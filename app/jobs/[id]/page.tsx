@@ -2,6 +2,10 @@
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
+import { jobSalaryText, schemaOrgBaseSalary } from '@/lib/salary'
+import { getSimilarJobs } from '@/lib/similar-jobs'
+import SaveJobButton from '@/app/components/SaveJobButton'
+import ApplyButton from '@/app/components/ApplyButton'
 
 export async function generateMetadata({
   params,
@@ -73,8 +77,12 @@ export default async function JobDetailPage({
   // Increment view count (fire and forget)
   supabase.rpc('increment_job_views', { job_uuid: id })
 
+  const similarJobs = await getSimilarJobs(id)
+
   const employer = Array.isArray(job.employer) ? job.employer[0] : job.employer
   const location = [job.location_city, job.location_country].filter(Boolean).join(', ')
+  const salaryText = jobSalaryText(job)
+  const baseSalary = schemaOrgBaseSalary(job)
 
   const jsonLd = {
     '@context': 'https://schema.org/',
@@ -97,13 +105,7 @@ export default async function JobDetailPage({
         addressCountry: job.location_country,
       },
     },
-    ...(job.salary_range && {
-      baseSalary: {
-        '@type': 'MonetaryAmount',
-        currency: 'GBP',
-        value: { '@type': 'QuantitativeValue', value: job.salary_range },
-      },
-    }),
+    ...(baseSalary && { baseSalary }),
   }
 
   return (
@@ -158,9 +160,9 @@ export default async function JobDetailPage({
                     💼 {job.category}
                   </span>
                 )}
-                {job.salary_range && (
+                {salaryText && (
                   <span className="px-4 py-2 bg-green-50 text-green-600 rounded-full font-semibold">
-                    💰 {job.salary_range}
+                    💰 {salaryText}
                   </span>
                 )}
               </div>
@@ -168,13 +170,9 @@ export default async function JobDetailPage({
           </div>
 
           {/* Apply Button */}
-          <div className="border-t pt-6">
-            <Link
-              href={`/jobs/${job.id}/apply`}
-              className="inline-block bg-[#32487A] text-white px-8 py-3 rounded-full font-semibold hover:bg-[#4b8ec2] transition text-center w-full sm:w-auto"
-            >
-              Apply Now
-            </Link>
+          <div className="border-t pt-6 flex flex-wrap items-center gap-y-3">
+            <ApplyButton jobId={job.id} />
+            <SaveJobButton jobId={job.id} />
           </div>
         </div>
 
@@ -222,10 +220,10 @@ export default async function JobDetailPage({
               </span>
             </div>
 
-            {job.salary_range && (
+            {salaryText && (
               <div className="flex justify-between py-3 border-b">
                 <span className="font-semibold text-gray-800">Salary</span>
-                <span className="text-gray-800">{job.salary_range}</span>
+                <span className="text-gray-800">{salaryText}</span>
               </div>
             )}
 
@@ -260,15 +258,44 @@ export default async function JobDetailPage({
         )}
 
         {/* Similar Jobs */}
-        <div className="mt-12">
-          <h2 className="text-2xl font-bold mb-6 text-[#2d436f]">Similar Jobs</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* We'll fetch similar jobs later */}
-            <div className="bg-white rounded-[25px] shadow-sm p-6 text-center text-gray-600">
-              More jobs coming soon...
+        {similarJobs.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold mb-6 text-[#2d436f]">Similar Jobs</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {similarJobs.map(similar => {
+                const similarSalary = jobSalaryText(similar)
+                return (
+                  <Link
+                    key={similar.id}
+                    href={`/jobs/${similar.id}`}
+                    className="block bg-white rounded-[25px] shadow-sm p-6 hover:shadow-md transition group"
+                  >
+                    <h3 className="text-lg font-semibold mb-1 text-[#2d436f] group-hover:text-[#32487A] transition">
+                      {similar.title}
+                    </h3>
+                    <p className="text-gray-800 mb-3">
+                      {similar.company_name || 'Company'}
+                    </p>
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      <span className="px-3 py-1 bg-[#F5F7FC] text-[#32487A] rounded-full font-medium">
+                        {similar.job_type}
+                      </span>
+                      <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full">
+                        📍 {similar.location_country}
+                        {similar.location_city && `, ${similar.location_city}`}
+                      </span>
+                      {similarSalary && (
+                        <span className="px-3 py-1 bg-green-50 text-green-600 rounded-full">
+                          💰 {similarSalary}
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+                )
+              })}
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   )
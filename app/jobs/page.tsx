@@ -1,171 +1,471 @@
 ﻿import type { Metadata } from 'next'
 import Link from 'next/link'
+import { redirect } from 'next/navigation'
 import { supabase } from '@/lib/supabase'
+import type { Job } from '@/lib/supabase'
+import { jobSalaryText } from '@/lib/salary'
+import { countryCentroid, distanceKm, formatDistance, geocodePlace } from '@/lib/geocoding'
+import { cachedGeocoder } from '@/lib/geocoding-cache'
+import JobsMap from '@/app/components/JobsMap'
+import SaveJobButton from '@/app/components/SaveJobButton'
+import CreateJobAlertButton from '@/app/components/CreateJobAlertButton'
+import type { JobMapMarker } from '@/app/components/JobsMap'
+import {
+  DEFAULT_RADIUS_KM,
+  JOBS_PAGE_SIZE,
+  JOB_SORTS,
+  JOB_TYPES,
+  MAP_JOB_LIMIT,
+  POSTED_WITHIN,
+  RADIUS_OPTIONS_KM,
+  SPECIALTIES,
+  applyJobFilters,
+  applyJobSort,
+  effectiveSort,
+  facetOptions,
+  hasActiveFilters,
+  jobFacetArgs,
+  jobsUrl,
+  pageWindow,
+  parseJobFilters,
+  parseJobView,
+  parsePage,
+  searchJobsArgs,
+} from '@/lib/job-search'
+import type { JobFacets, JobView, RawSearchParams } from '@/lib/job-search'
+import { alertFiltersFromJobFilters } from '@/lib/job-alerts'
 
-export const metadata: Metadata = {
-  title: 'Browse Osteopath Jobs',
-  description: 'Search osteopath jobs by location, job type and specialty. Hundreds of positions at clinics and practices worldwide — full time, part time, locum and associate roles.',
-  openGraph: {
-    title: 'Browse Osteopath Jobs | OsteoJob',
-    description: 'Find osteopath jobs worldwide. Filter by country, job type and specialty.',
-    url: 'https://osteojob.com/jobs',
-  },
+const BASE_DESCRIPTION = 'Search osteopath jobs by location, job type and specialty. Hundreds of positions at clinics and practices worldwide — full time, part time, locum and associate roles.'
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<RawSearchParams>
+}): Promise<Metadata> {
+  const params = await searchParams
+  const page = parsePage(params.page)
+  const url = `https://osteojob.com${jobsUrl(parseJobFilters(params), page)}`
+
+  return {
+    title: page > 1 ? `Browse Osteopath Jobs — Page ${page}` : 'Browse Osteopath Jobs',
+    description: BASE_DESCRIPTION,
+    alternates: { canonical: url },
+    openGraph: {
+      title: 'Browse Osteopath Jobs | OsteoJob',
+      description: 'Find osteopath jobs worldwide. Filter by country, job type and specialty.',
+      url,
+    },
+  }
 }
 
 export default async function JobsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ search?: string; location?: string; type?: string }>
+  searchParams: Promise<RawSearchParams>
 }) {
   const params = await searchParams
-  
-  // Build query
-  let query = supabase
-    .from('jobs')
-    .select('*, employer:profiles!employer_id(*)')
-    .eq('status', 'active')
-
-  // Apply filters
-  if (params.search) {
-    query = query.ilike('title', `%${params.search}%`)
-  }
-  if (params.location) {
-    query = query.eq('location_country', params.location)
-  }
-  if (params.type) {
-    query = query.eq('job_type', params.type)
-  }
+  const filters = parseJobFilters(params)
+  const view = parseJobView(params.view)
+  const page = view === 'map' ? 1 : parsePage(params.page)
+  const from = (page - 1) * JOBS_PAGE_SIZE
+  const columns = view === 'map'
+    ? 'id, title, job_type, location_city, location_country, latitude, longitude, featured, salary_range, salary_min, salary_max, salary_currency, salary_period, employer:profiles!employer_id(company_name)'
+    : '*, employer:profiles!employer_id(*)'
+
+  // A "near" place we can't geocode is reported below the filters and
+  // otherwise ignored, rather than returning no jobs at all
+  const origin = filters.near ? await geocodePlace(filters.near, filters.location, cachedGeocoder()) : null
+  const queryFilters = origin ? filters : { ...filters, near: undefined }
+
+  // Build query — a search term or radius goes through the search_jobs()
+  // function, which returns featured jobs first, then best match or nearest
+  let query = filters.search || origin
+    ? supabase.rpc('search_jobs', searchJobsArgs(queryFilters, origin), { count: 'exact' }).select(columns)
+    : supabase.from('jobs').select(columns, { count: 'exact' })
 
-  const [{ data: jobs }, { data: countryRows }] = await Promise.all([
-    query.order('posted_date', { ascending: false }),
-    supabase.from('jobs').select('location_country').eq('status', 'active'),
+  query = applyJobFilters(query.eq('status', 'active'), queryFilters)
+  query = applyJobSort(query, queryFilters)
+
+  const [{ data, count, error }, { data: facetData }] = await Promise.all([
+    view === 'map' ? query.range(0, MAP_JOB_LIMIT - 1) : query.range(from, from + JOBS_PAGE_SIZE - 1),
+    supabase.rpc('job_facets', jobFacetArgs(queryFilters, origin)),
   ])
 
-  const countries = [...new Set(
-    (countryRows || []).map(r => r.location_country).filter(Boolean)
-  )].sort()
+  // The map view selects fewer columns, so rows can't be typed from the query
+  const jobs = data as unknown as Job[] | null
+
+  // Asking for a page past the end of the results — start again from page 1
+  if (error?.code === 'PGRST103') {
+    redirect(jobsUrl(filters))
+  }
+
+  const total = count || 0
+  const totalPages = view === 'map' ? 1 : Math.max(1, Math.ceil(total / JOBS_PAGE_SIZE))
+  const prevUrl = page > 1 ? jobsUrl(filters, page - 1) : null
+  const nextUrl = page < totalPages ? jobsUrl(filters, page + 1) : null
+
+  const facets: JobFacets = facetData || { location: {}, type: {}, specialty: {} }
+  const withCount = (value: string, counts: Record<string, number>) => `${value} (${counts[value] || 0})`
+
+  const countries = facetOptions(
+    facets.location,
+    Object.keys(facets.location).sort(),
+    filters.location ? [filters.location] : []
+  )
+  const jobTypes = facetOptions(facets.type, JOB_TYPES, filters.types)
+  const specialties = facetOptions(facets.specialty, SPECIALTIES, filters.specialty ? [filters.specialty] : [])
+
+  // Geocoded jobs sit at their city; the rest fall back to their country's centre
+  const markers: JobMapMarker[] = view === 'map'
+    ? (jobs || []).flatMap((job: Job) => {
+        const exact = job.latitude !== null && job.longitude !== null
+        const position = exact
+          ? { latitude: job.latitude!, longitude: job.longitude! }
+          : countryCentroid(job.location_country)
+        if (!position) return []
+        return [{
+          id: job.id,
+          title: job.title,
+          company: job.employer?.company_name || null,
+          location: [job.location_city, job.location_country].filter(Boolean).join(', '),
+          jobType: job.job_type,
+          salary: jobSalaryText(job),
+          featured: job.featured,
+          ...position,
+          approximate: !exact,
+        }]
+      })
+    : []
+  const unplaced = view === 'map' ? (jobs?.length || 0) - markers.length : 0
 
   return (
     <div className="min-h-screen bg-[#f0f6ff] py-12 px-4">
+      {prevUrl && <link rel="prev" href={`https://osteojob.com${prevUrl}`} />}
+      {nextUrl && <link rel="next" href={`https://osteojob.com${nextUrl}`} />}
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold mb-2 text-gray-900">Find Your Perfect Job</h1>
-          <p className="text-xl text-gray-700">
-            {jobs?.length || 0} opportunities available
-          </p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 text-gray-900">Find Your Perfect Job</h1>
+            <p className="text-xl text-gray-700">
+              {total} opportunities available
+            </p>
+            {view === 'list' && total > JOBS_PAGE_SIZE && (
+              <p className="text-sm text-gray-600 mt-1">
+                Showing {from + 1}–{Math.min(from + JOBS_PAGE_SIZE, total)} of {total}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <CreateJobAlertButton key={jobsUrl(filters)} filters={alertFiltersFromJobFilters(filters)} />
+            <div role="group" aria-label="View" className="flex bg-white rounded-full shadow-sm p-1">
+              {(['list', 'map'] as JobView[]).map(v => (
+                <Link
+                  key={v}
+                  href={jobsUrl(filters, 1, v)}
+                  aria-current={v === view ? 'page' : undefined}
+                  className={`px-5 py-2 rounded-full font-semibold transition ${
+                    v === view ? 'bg-[#32487A] text-white' : 'text-[#32487A] hover:bg-[#dce8f5]'
+                  }`}
+                >
+                  {v === 'list' ? '☰ List' : '🗺️ Map'}
+                </Link>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Filters */}
         <div className="bg-white rounded-[25px] shadow-sm p-6 mb-8">
-          <form method="GET" className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <input
-              type="text"
-              name="search"
-              placeholder="Search jobs..."
-              defaultValue={params.search}
-              className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-            />
-
-            <select
-              name="location"
-              defaultValue={params.location}
-              className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-            >
-              <option value="">All Locations</option>
-              {countries.map(c => (
-                <option key={c} value={c}>{c}</option>
-              ))}
-            </select>
+          <form method="GET" key={jobsUrl(filters, 1, view)} className="space-y-4">
+            {view === 'map' && <input type="hidden" name="view" value="map" />}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input
+                type="text"
+                name="search"
+                placeholder="Search jobs..."
+                defaultValue={filters.search}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              />
 
-            <select
-              name="type"
-              defaultValue={params.type}
-              className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-            >
-              <option value="">All Types</option>
-              <option value="Full Time">Full Time</option>
-              <option value="Part Time">Part Time</option>
-              <option value="Locum">Locum</option>
-              <option value="Contract">Contract</option>
-            </select>
-
-            <button
-              type="submit"
-              className="bg-[#32487A] text-white px-6 py-2 rounded-full font-semibold hover:bg-[#4b8ec2] transition"
-            >
-              Filter
-            </button>
+              <select
+                name="location"
+                defaultValue={filters.location}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              >
+                <option value="">All Locations</option>
+                {countries.map(c => (
+                  <option key={c} value={c}>{withCount(c, facets.location)}</option>
+                ))}
+              </select>
+
+              <select
+                name="specialty"
+                defaultValue={filters.specialty}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              >
+                <option value="">All Specialties</option>
+                {specialties.map(s => (
+                  <option key={s} value={s}>{withCount(s, facets.specialty)}</option>
+                ))}
+              </select>
+
+              <input
+                type="text"
+                name="city"
+                placeholder="City"
+                defaultValue={filters.city}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              />
+
+              <div className="flex gap-2 md:col-span-2">
+                <input
+                  type="text"
+                  name="near"
+                  placeholder="Near a town or city, e.g. Bristol"
+                  defaultValue={filters.near}
+                  className="flex-1 min-w-0 px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                />
+                <select
+                  name="radius"
+                  defaultValue={filters.radius ?? DEFAULT_RADIUS_KM}
+                  aria-label="Distance"
+                  className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                >
+                  {RADIUS_OPTIONS_KM.map(km => (
+                    <option key={km} value={km}>Within {km} km</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {filters.near && !origin && (
+              <p className="text-sm text-red-600">
+                We couldn&apos;t find &ldquo;{filters.near}&rdquo; — try a nearby town or city, or add the country (e.g. &ldquo;Perth, Australia&rdquo;).
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+              <fieldset className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                <legend className="sr-only">Job type</legend>
+                {jobTypes.map(t => (
+                  <label key={t} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      name="type"
+                      value={t}
+                      defaultChecked={filters.types.includes(t)}
+                      className="w-4 h-4 accent-[#32487A]"
+                    />
+                    {withCount(t, facets.type)}
+                  </label>
+                ))}
+              </fieldset>
+
+              {view === 'list' && (
+                <select
+                  name="sort"
+                  defaultValue={effectiveSort(queryFilters)}
+                  aria-label="Sort by"
+                  className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+                >
+                  {Object.entries(JOB_SORTS)
+                    .filter(([value]) => value !== 'relevance' || filters.search)
+                    .filter(([value]) => value !== 'closest' || queryFilters.near)
+                    .map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+              )}
+
+              <select
+                name="posted"
+                defaultValue={filters.posted}
+                className="px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
+              >
+                <option value="">Any time</option>
+                {Object.entries(POSTED_WITHIN).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+
+              <label className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="salary"
+                  value="1"
+                  defaultChecked={filters.hasSalary}
+                  className="w-4 h-4 accent-[#32487A]"
+                />
+                Salary listed
+              </label>
+
+              <div className="flex items-center gap-3 md:ml-auto">
+                {hasActiveFilters(filters) && (
+                  <Link href={jobsUrl({ types: [], hasSalary: false }, 1, view)} className="text-sm font-medium text-gray-600 hover:text-[#32487A] transition">
+                    Clear filters
+                  </Link>
+                )}
+                <button
+                  type="submit"
+                  className="bg-[#32487A] text-white px-6 py-2 rounded-full font-semibold hover:bg-[#4b8ec2] transition"
+                >
+                  Filter
+                </button>
+              </div>
+            </div>
           </form>
         </div>
 
-        {/* Jobs List */}
-        {jobs && jobs.length > 0 ? (
+        {/* Map */}
+        {view === 'map' ? (
+          <div className="bg-white rounded-[25px] shadow-sm p-2">
+            <div className="h-[600px] rounded-[20px] overflow-hidden">
+              <JobsMap markers={markers} />
+            </div>
+            {(unplaced > 0 || total > MAP_JOB_LIMIT) && (
+              <p className="text-sm text-gray-600 px-4 py-3">
+                {total > MAP_JOB_LIMIT && `Showing the first ${MAP_JOB_LIMIT} of ${total} jobs — narrow your filters to see the rest. `}
+                {unplaced > 0 && `${unplaced} ${unplaced === 1 ? 'job has' : 'jobs have'} no known location and ${unplaced === 1 ? "isn't" : "aren't"} shown.`}
+              </p>
+            )}
+          </div>
+        ) : jobs && jobs.length > 0 ? (
           <div className="space-y-4">
-            {jobs.map((job) => (
-              <Link
-                key={job.id}
-                href={`/jobs/${job.id}`}
-                className="block bg-white rounded-[25px] shadow-sm p-6 hover:shadow-md transition group"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex gap-4 flex-1">
-                    <div className="w-16 h-16 bg-gray-100 rounded-lg flex-shrink-0 overflow-hidden flex items-center justify-center font-bold text-[#32487A]">
-                      {job.featured_image ? (
-                        <img src={job.featured_image} alt={job.title} className="w-full h-full object-cover" />
-                      ) : (
-                        job.employer?.company_name?.substring(0, 2).toUpperCase() || 'CO'
-                      )}
-                    </div>
+            {jobs.map((job: Job) => {
+              const salaryText = jobSalaryText(job)
+              const distance = origin && job.latitude !== null && job.longitude !== null
+                ? distanceKm(origin, { latitude: job.latitude, longitude: job.longitude })
+                : null
+              return (
+                <div key={job.id} className="relative">
+                  <Link
+                    href={`/jobs/${job.id}`}
+                    className="block bg-white rounded-[25px] shadow-sm p-6 hover:shadow-md transition group"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex gap-4 flex-1">
+                        <div className="w-16 h-16 bg-gray-100 rounded-lg flex-shrink-0 overflow-hidden flex items-center justify-center font-bold text-[#32487A]">
+                          {job.featured_image ? (
+                            <img src={job.featured_image} alt={job.title} className="w-full h-full object-cover" />
+                          ) : (
+                            job.employer?.company_name?.substring(0, 2).toUpperCase() || 'CO'
+                          )}
+                        </div>
 
-                    <div className="flex-1">
-                      <h2 className="text-xl font-semibold mb-1 text-[#2d436f] group-hover:text-[#32487A] transition">
-                        {job.title}
-                      </h2>
-                      <p className="text-gray-800 mb-3">
-                        {job.employer?.company_name || 'Company'}
-                      </p>
+                        <div className="flex-1">
+                          <h2 className="text-xl font-semibold mb-1 text-[#2d436f] group-hover:text-[#32487A] transition">
+                            {job.title}
+                          </h2>
+                          <p className="text-gray-800 mb-3">
+                            {job.employer?.company_name || 'Company'}
+                          </p>
 
-                      <div className="flex flex-wrap gap-3 text-sm">
-                        <span className="px-3 py-1 bg-[#F5F7FC] text-[#32487A] rounded-full font-medium">
-                          {job.job_type}
-                        </span>
-                        <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full">
-                          📍 {job.location_country}
-                          {job.location_city && `, ${job.location_city}`}
-                        </span>
-                        {job.category && (
-                          <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full">
-                            💼 {job.category}
-                          </span>
-                        )}
-                        {job.salary_range && (
-                          <span className="px-3 py-1 bg-green-50 text-green-600 rounded-full">
-                            💰 {job.salary_range}
-                          </span>
-                        )}
+                          <div className="flex flex-wrap gap-3 text-sm">
+                            <span className="px-3 py-1 bg-[#F5F7FC] text-[#32487A] rounded-full font-medium">
+                              {job.job_type}
+                            </span>
+                            <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full">
+                              📍 {job.location_country}
+                              {job.location_city && `, ${job.location_city}`}
+                            </span>
+                            {distance !== null && (
+                              <span className="px-3 py-1 bg-[#dce8f5] text-[#32487A] rounded-full font-medium">
+                                🧭 {formatDistance(distance)} away
+                              </span>
+                            )}
+                            {job.category && (
+                              <span className="px-3 py-1 bg-gray-100 text-gray-800 rounded-full">
+                                💼 {job.category}
+                              </span>
+                            )}
+                            {salaryText && (
+                              <span className="px-3 py-1 bg-green-50 text-green-600 rounded-full">
+                                💰 {salaryText}
+                              </span>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
 
-                  <div className="text-right flex-shrink-0 ml-4">
-                    <div className="text-sm text-gray-700 mb-2">
-                      {new Date(job.posted_date).toLocaleDateString('en-GB', {
-                        day: 'numeric',
-                        month: 'short',
-                      })}
+                      <div className="text-right flex-shrink-0 ml-4">
+                        <div className="text-sm text-gray-700 mb-2 mt-12">
+                          {new Date(job.posted_date).toLocaleDateString('en-GB', {
+                            day: 'numeric',
+                            month: 'short',
+                          })}
+                        </div>
+
+                      </div>
                     </div>
 
+                    {job.excerpt && (
+                      <p className="mt-4 text-gray-700 line-clamp-2">
+                        {job.excerpt}
+                      </p>
+                    )}
+                  </Link>
+
+                  {/* Outside the link so saving doesn't open the job */}
+                  <div className="absolute top-6 right-6">
+                    <SaveJobButton jobId={job.id} variant="compact" />
                   </div>
                 </div>
+              )
+            })}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <nav aria-label="Pagination" className="flex flex-wrap items-center justify-center gap-2 pt-6">
+                {prevUrl ? (
+                  <Link
+                    href={prevUrl}
+                    rel="prev"
+                    className="px-4 py-2 bg-white rounded-full font-semibold text-[#32487A] shadow-sm hover:bg-[#dce8f5] transition"
+                  >
+                    ← Previous
+                  </Link>
+                ) : (
+                  <span className="px-4 py-2 bg-white rounded-full font-semibold text-gray-400 shadow-sm">
+                    ← Previous
+                  </span>
+                )}
+
+                {pageWindow(page, totalPages).map((p, i) =>
+                  p === null ? (
+                    <span key={`gap-${i}`} className="px-2 text-gray-500">…</span>
+                  ) : (
+                    <Link
+                      key={p}
+                      href={jobsUrl(filters, p)}
+                      aria-current={p === page ? 'page' : undefined}
+                      className={`w-10 h-10 flex items-center justify-center rounded-full font-semibold transition ${
+                        p === page
+                          ? 'bg-[#32487A] text-white'
+                          : 'bg-white text-[#32487A] shadow-sm hover:bg-[#dce8f5]'
+                      }`}
+                    >
+                      {p}
+                    </Link>
+                  )
+                )}
 
-                {job.excerpt && (
-                  <p className="mt-4 text-gray-700 line-clamp-2">
-                    {job.excerpt}
-                  </p>
+                {nextUrl ? (
+                  <Link
+                    href={nextUrl}
+                    rel="next"
+                    className="px-4 py-2 bg-white rounded-full font-semibold text-[#32487A] shadow-sm hover:bg-[#dce8f5] transition"
+                  >
+                    Next →
+                  </Link>
+                ) : (
+                  <span className="px-4 py-2 bg-white rounded-full font-semibold text-gray-400 shadow-sm">
+                    Next →
+                  </span>
                 )}
-              </Link>
-            ))}
+              </nav>
+            )}
           </div>
         ) : (
           <div className="bg-white rounded-[25px] shadow-sm p-12 text-center">
@@ -23,17 +23,15 @@ export default async function Home() {
     { data: jobs },
     { count: jobCount },
     { count: userCount },
-    { data: countryRows },
+    { data: facets },
   ] = await Promise.all([
     supabase.from('jobs').select('*, employer:profiles!employer_id(*)').eq('status', 'active').order('posted_date', { ascending: false }).limit(6),
     supabase.from('jobs').select('*', { count: 'exact', head: true }).eq('status', 'active'),
     supabase.from('profiles').select('*', { count: 'exact', head: true }),
-    supabase.from('jobs').select('location_country').eq('status', 'active'),
+    supabase.rpc('job_facets'),
   ])
 
-  const countries = [...new Set(
-    (countryRows || []).map(r => r.location_country).filter(Boolean)
-  )].sort()
+  const countries = Object.keys(facets?.location || {}).sort()
 
   return (
     <main className={`min-h-screen ${jost.className}`} style={{ background: '#f0f6ff' }}>
@@ -4,6 +4,14 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import SalaryFields from '@/app/components/SalaryFields'
+import ScreeningQuestionsEditor from '@/app/components/ScreeningQuestionsEditor'
+import { authHeaders } from '@/lib/auth'
+import { fetchCoordinates } from '@/lib/geocoding'
+import { COUNTRY_CURRENCIES, emptySalaryInput, jobSalaryText, salaryInputToColumns } from '@/lib/salary'
+import type { SalaryInput } from '@/lib/salary'
+import { cleanScreeningQuestions } from '@/lib/screening'
+import type { ScreeningQuestion } from '@/lib/screening'
 
 export default function PostJobPage() {
   const router = useRouter()
@@ -14,6 +22,8 @@ export default function PostJobPage() {
   const [profile, setProfile] = useState<any>(null)
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string>('')
+  const [salary, setSalary] = useState<SalaryInput>(emptySalaryInput())
+  const [screeningQuestions, setScreeningQuestions] = useState<ScreeningQuestion[]>([])
   const [authStatus, setAuthStatus] = useState<'ok' | 'not-logged-in' | 'not-employer'>('ok')
 
   useEffect(() => {
@@ -89,6 +99,9 @@ export default function PostJobPage() {
     const formData = new FormData(e.currentTarget)
 
     try {
+      const salaryColumns = salaryInputToColumns(salary)
+      const screening = cleanScreeningQuestions(screeningQuestions)
+      if (screening.error) throw new Error(screening.error)
       let imageUrl = null
 
       // Upload image if provided
@@ -115,6 +128,12 @@ export default function PostJobPage() {
         imageUrl = await fetchCityImage(city, country)
       }
 
+      const coordinates = await fetchCoordinates(
+        formData.get('city') as string,
+        formData.get('country') as string,
+        await authHeaders()
+      )
+
       // Insert job as pending (will be auto-approved or reviewed by admin)
       const { data: insertData, error: insertError } = await supabase
         .from('jobs')
@@ -126,7 +145,9 @@ export default function PostJobPage() {
           category: formData.get('category') as string,
           location_country: formData.get('country') as string,
           location_city: formData.get('city') as string,
-          salary_range: formData.get('salary') as string,
+          ...coordinates,
+          ...salaryColumns,
+          screening_questions: screening.questions,
           featured_image: imageUrl,
           status: 'active',
           posted_date: new Date().toISOString(),
@@ -147,7 +168,7 @@ export default function PostJobPage() {
           jobType: formData.get('jobType') as string,
           city: formData.get('city') as string,
           country: formData.get('country') as string,
-          salary: formData.get('salary') as string,
+          salary: jobSalaryText(salaryColumns) || '',
           employerName: profile?.company_name || '',
           employerEmail: user?.email || '',
         }),
@@ -339,6 +360,11 @@ export default function PostJobPage() {
                 <select
                   name="country"
                   required
+                  onChange={(e) => {
+                    // Follow the country's currency until an amount has been entered
+                    const currency = COUNTRY_CURRENCIES[e.target.value]
+                    setSalary(prev => prev.min || prev.max || !currency ? prev : { ...prev, currency })
+                  }}
                   className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
                 >
                   <option value="">Select country...</option>
@@ -388,21 +414,8 @@ export default function PostJobPage() {
               </div>
             </div>
 
-            {/* Salary Range */}
-            <div>
-              <label className="block text-sm font-semibold text-gray-900 mb-2">
-                Salary Range
-              </label>
-              <input
-                type="text"
-                name="salary"
-                className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] text-gray-900"
-                placeholder="e.g. £30,000 - £45,000"
-              />
-              <p className="text-sm text-gray-700 mt-1">
-                Optional - helps attract the right candidates
-              </p>
-            </div>
+            {/* Salary */}
+            <SalaryFields value={salary} onChange={setSalary} />
 
             {/* Job Description */}
             <div>
@@ -421,6 +434,9 @@ export default function PostJobPage() {
               </p>
             </div>
 
+            {/* Screening Questions */}
+            <ScreeningQuestionsEditor value={screeningQuestions} onChange={setScreeningQuestions} />
+
             {/* Company Info Preview */}
             <div className="bg-[#F5F7FC] border border-blue-200 rounded-lg p-4">
               <p className="text-sm text-[#2d436f] font-semibold mb-2">
@@ -5,6 +5,9 @@ import { supabase } from '@/lib/supabase'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import type { Profile } from '@/lib/supabase'
+import { CV_ACCEPT, describeCv, uploadCv } from '@/lib/cv'
+import { authHeaders } from '@/lib/auth'
+import CvLink from '@/app/components/CvLink'
 
 export default function ProfilePage() {
   const router = useRouter()
@@ -14,6 +17,8 @@ export default function ProfilePage() {
   const [success, setSuccess] = useState(false)
   const [error, setError] = useState('')
   const [fetchError, setFetchError] = useState('')
+  const [cvUploading, setCvUploading] = useState(false)
+  const [cvError, setCvError] = useState('')
 
   useEffect(() => {
     const loadProfile = async () => {
@@ -37,7 +42,7 @@ export default function ProfilePage() {
 
       // No profile found by id — attempt server-side re-link (trigger may not have fired)
       if (!data) {
-        const res = await fetch('/api/relink-profile', { method: 'POST' })
+        const res = await fetch('/api/relink-profile', { method: 'POST', headers: await authHeaders() })
         const json = await res.json()
 
         if (!res.ok) {
@@ -99,6 +104,7 @@ export default function ProfilePage() {
       updates.experience_years = formData.get('experience_years')
         ? Number(formData.get('experience_years'))
         : null
+      updates.email_application_updates = formData.get('email_application_updates') === 'on'
     }
 
     if (profile?.user_type === 'employer') {
@@ -126,6 +132,34 @@ export default function ProfilePage() {
     }
   }
 
+  // The default CV is saved straight away rather than with the rest of the
+  // form. Replaced files are kept: past applications still link to them.
+  const updateDefaultCv = async (file: File | null) => {
+    if (!profile) return
+    setCvUploading(true)
+    setCvError('')
+
+    try {
+      const cvPath = file ? await uploadCv(file) : null
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ cv_url: cvPath })
+        .eq('id', profile.id)
+
+      if (updateError) {
+        setCvError(updateError.message)
+        return
+      }
+
+      setProfile((prev) => prev ? { ...prev, cv_url: cvPath } : prev)
+    } catch (err) {
+      setCvError(err instanceof Error ? err.message : 'Failed to update your CV.')
+    } finally {
+      setCvUploading(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#f0f6ff] flex items-center justify-center">
@@ -282,10 +316,70 @@ export default function ProfilePage() {
                     placeholder="0"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default CV</label>
+                  {profile.cv_url ? (
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      <CvLink
+                        path={profile.cv_url}
+                        className="text-sm font-medium text-[#32487A] hover:text-[#4b8ec2] transition"
+                      >
+                        📄 {describeCv(profile.cv_url)}
+                      </CvLink>
+                      <button
+                        type="button"
+                        onClick={() => updateDefaultCv(null)}
+                        disabled={cvUploading}
+                        className="text-sm text-gray-500 hover:text-red-600 transition disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 mb-2">No CV saved yet.</p>
+                  )}
+                  <input
+                    type="file"
+                    accept={CV_ACCEPT}
+                    disabled={cvUploading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) updateDefaultCv(file)
+                      e.target.value = ''
+                    }}
+                    className="w-full px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:border-[#4b8ec2] file:mr-4 file:py-1 file:px-4 file:rounded file:border-0 file:bg-[#F5F7FC] file:text-[#32487A] file:font-semibold hover:file:bg-[#dce8f5] disabled:opacity-50"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    {cvUploading ? 'Uploading...' : 'PDF, DOC or DOCX — max 5MB. Offered as your CV when you apply for jobs.'}
+                  </p>
+                  {cvError && <p className="text-sm text-red-600 mt-1">{cvError}</p>}
+                </div>
               </div>
             </div>
           )}
 
+          {/* Candidate notifications */}
+          {profile.user_type === 'candidate' && (
+            <div className="bg-white rounded-[25px] shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Email Notifications</h2>
+              <label className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  name="email_application_updates"
+                  defaultChecked={profile.email_application_updates !== false}
+                  className="mt-1 accent-[#32487A]"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">Application updates</span>
+                  <span className="block text-sm text-gray-500">
+                    Email me when an employer reviews, shortlists, accepts or declines one of my applications.
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
           {/* Employer-specific */}
           {profile.user_type === 'employer' && (
             <div className="bg-white rounded-[25px] shadow-sm p-6">
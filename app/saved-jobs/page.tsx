@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { fetchSavedJobs, isJobOpen } from '@/lib/saved-jobs'
+import type { SavedJob } from '@/lib/supabase'
+import { supabase } from '@/lib/supabase'
+import SavedJobsList from '@/app/components/SavedJobsList'
+
+export default function SavedJobsPage() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
+  const [appliedJobIds, setAppliedJobIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    const loadSavedJobs = async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession()
+        const user = session?.user
+
+        if (!user) {
+          router.push('/auth/login')
+          return
+        }
+
+        const result = await fetchSavedJobs(user.id)
+        setSavedJobs(result.savedJobs)
+        setAppliedJobIds(result.appliedJobIds)
+      } catch (error) {
+        console.error('Error loading saved jobs:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSavedJobs()
+  }, [router])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#f0f6ff] flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-4xl mb-4">⏳</div>
+          <p className="text-gray-800">Loading your saved jobs...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const openCount = savedJobs.filter(s => s.job && isJobOpen(s.job)).length
+
+  return (
+    <div className="min-h-screen bg-[#f0f6ff] py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center text-[#32487A] hover:text-[#4b8ec2] mb-6 font-medium"
+        >
+          ← Back to dashboard
+        </Link>
+
+        <div className="bg-white rounded-[25px] shadow-sm p-6">
+          <h1 className="text-3xl font-bold text-gray-900">Saved Jobs</h1>
+          <p className="text-gray-800 mt-1 mb-6">
+            {savedJobs.length === 0
+              ? 'Jobs you save will appear here.'
+              : `${savedJobs.length} saved · ${openCount} still open`}
+          </p>
+
+          {savedJobs.length > 0 ? (
+            <SavedJobsList
+              savedJobs={savedJobs}
+              appliedJobIds={appliedJobIds}
+              onRemove={jobId => setSavedJobs(prev => prev.filter(s => s.job_id !== jobId))}
+            />
+          ) : (
+            <div className="text-center py-12 text-gray-700">
+              <div className="text-6xl mb-4">☆</div>
+              <p className="mb-4">Tap the star on any job to save it for later</p>
+              <Link
+                href="/jobs"
+                className="inline-block bg-[#32487A] text-white px-6 py-3 rounded-full font-semibold hover:bg-[#4b8ec2]"
+              >
+                Browse Jobs
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
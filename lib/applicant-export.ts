@@ -0,0 +1,75 @@
+// Exporting a job's applicants: the CSV and the file names in the CV ZIP
+
+import type { Application } from './supabase'
+import type { ScreeningQuestion } from './screening'
+import { APPLICATION_STATUSES } from './applications'
+
+export type ExportedApplication = Pick<
+  Application,
+  'id' | 'applicant_name' | 'applicant_email' | 'applicant_phone' | 'status' |
+  'applied_at' | 'screening_answers' | 'employer_notes' | 'cv_url'
+>
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: string | null | undefined): string {
+  let cell = value ?? ''
+  if (FORMULA_PREFIX.test(cell)) cell = `'${cell}`
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+// One row per application, one column per screening question. Questions are
+// in the job's current order, followed by any the employer has since removed
+// that applicants still answered.
+export function applicationsCsv(questions: ScreeningQuestion[], applications: ExportedApplication[]): string {
+  const columns = new Map(questions.map(q => [q.id, q.label]))
+  for (const application of applications) {
+    for (const answer of application.screening_answers || []) {
+      if (!columns.has(answer.question_id)) columns.set(answer.question_id, answer.question)
+    }
+  }
+
+  const header = ['Name', 'Email', 'Phone', 'Status', 'Applied', ...columns.values(), 'Notes']
+  const rows = applications.map(application => {
+    const answers = new Map((application.screening_answers || []).map(a => [a.question_id, a.answer]))
+    return [
+      application.applicant_name,
+      application.applicant_email,
+      application.applicant_phone,
+      APPLICATION_STATUSES[application.status].label,
+      application.applied_at.slice(0, 10),
+      ...[...columns.keys()].map(id => answers.get(id)),
+      application.employer_notes,
+    ]
+  })
+
+  // Leading BOM so Excel reads the file as UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// "Jane Smith.pdf", or "Jane Smith (2).pdf" when two applicants share a name
+export function cvFileNames(applications: Pick<ExportedApplication, 'id' | 'applicant_name' | 'cv_url'>[]): Map<string, string> {
+  const names = new Map<string, string>()
+  const taken = new Set<string>()
+
+  for (const application of applications) {
+    if (!application.cv_url) continue
+
+    const ext = application.cv_url.match(/\.(\w+)(?:\?.*)?$/)?.[1]?.toLowerCase() || 'pdf'
+    const base = application.applicant_name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '').replace(/\s+/g, ' ').trim() || 'Applicant'
+
+    let name = `${base}.${ext}`
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base} (${n}).${ext}`
+
+    taken.add(name.toLowerCase())
+    names.set(application.id, name)
+  }
+  return names
+}
+
+// A file name for the download, from the job title
+export function exportFileName(jobTitle: string, ext: string): string {
+  const slug = jobTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+  return `${slug || 'job'}-applicants.${ext}`
+}
@@ -0,0 +1,42 @@
+// Email to the employer about a new application
+
+import { BASE_URL, buttons, details, intro, quote, renderEmail } from './email-template'
+import type { RenderedEmail } from './email-template'
+import type { ScreeningAnswer } from './screening'
+
+export function newApplicationEmail({
+  jobTitle,
+  jobId,
+  applicantName,
+  applicantEmail,
+  applicantPhone,
+  coverLetter,
+  answers,
+}: {
+  jobTitle: string
+  jobId: string
+  applicantName: string
+  applicantEmail: string
+  applicantPhone: string
+  coverLetter: string
+  answers: ScreeningAnswer[]
+}): RenderedEmail {
+  const applicantsUrl = `${BASE_URL}/dashboard/jobs/${jobId}/applicants`
+
+  return renderEmail({
+    subject: `New application for ${jobTitle} – OsteoJob`,
+    header: 'New Job Application',
+    body: [
+      intro({ lead: 'You have a new application for', title: jobTitle, href: `${BASE_URL}/jobs/${jobId}` }),
+      details('Applicant Details', [
+        { label: 'Name', value: applicantName },
+        { label: 'Email', value: applicantEmail, href: `mailto:${applicantEmail}` },
+        ...(applicantPhone ? [{ label: 'Phone', value: applicantPhone }] : []),
+        { label: 'CV', value: 'View CV on OsteoJob', href: applicantsUrl, button: true },
+      ]),
+      quote('Cover Letter', coverLetter),
+      answers.length > 0 && details('Screening Questions', answers.map(a => ({ label: a.question, value: a.answer }))),
+      buttons({ text: 'View Applicants', href: applicantsUrl }),
+    ],
+  })
+}
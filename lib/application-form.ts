@@ -0,0 +1,37 @@
+// The apply form's fields, validated with the same schema in the browser
+// and in POST /api/applications
+
+import { z } from 'zod'
+
+export const MAX_COVER_LETTER_LENGTH = 10000
+
+export const applicationFormSchema = z.object({
+  jobId: z.string().min(1, 'Job not found'),
+  name: z.string().trim().min(1, 'Please enter your name').max(200, 'Your name is too long'),
+  email: z.string().trim().pipe(z.email('Please enter a valid email address').max(320, 'Your email address is too long')),
+  phone: z.string().trim().max(50, 'Your phone number is too long').default(''),
+  coverLetter: z.string().trim()
+    .min(1, 'Please write a cover letter')
+    .max(MAX_COVER_LETTER_LENGTH, `Cover letters are limited to ${MAX_COVER_LETTER_LENGTH} characters`),
+  // Path of the uploaded or saved CV in the cvs bucket
+  cvPath: z.string().min(1, 'Please attach your CV'),
+  // Keyed by question id; checked against the job's questions on the server
+  screeningAnswers: z.record(z.string(), z.string()).default({}),
+  saveAsDefaultCv: z.boolean().default(false),
+})
+
+export type ApplicationForm = z.input<typeof applicationFormSchema>
+
+export type ApplicationField = keyof ApplicationForm
+
+// The first problem with each field, for showing next to it
+export type ApplicationFieldErrors = Partial<Record<ApplicationField, string>>
+
+export function applicationFieldErrors(error: z.ZodError): ApplicationFieldErrors {
+  const errors: ApplicationFieldErrors = {}
+  for (const issue of error.issues) {
+    const field = issue.path[0] as ApplicationField
+    errors[field] ??= issue.message
+  }
+  return errors
+}
@@ -0,0 +1,90 @@
+// Emails about application status changes: to the candidate when the
+// employer moves their application, and to the employer when the candidate
+// withdraws it
+
+import { BASE_URL, buttons, footerLine, intro, link, paragraph, quote, renderEmail, strong } from './email-template'
+import type { RenderedEmail } from './email-template'
+import { APPLICATION_STATUSES } from './applications'
+import type { NotifiedStatus } from './applications'
+
+export const MAX_STATUS_MESSAGE_LENGTH = 2000
+
+const DEFAULT_MESSAGES: Record<NotifiedStatus, (job: string, company: string) => string> = {
+  reviewed: (job, company) =>
+    `${company} has reviewed your application for ${job}. We'll let you know as soon as there's more news.`,
+  shortlisted: (job, company) =>
+    `Good news — ${company} has shortlisted you for ${job}. They may be in touch soon to arrange the next steps.`,
+  accepted: (job, company) =>
+    `Congratulations! ${company} has accepted your application for ${job}. They will contact you directly about what happens next.`,
+  rejected: (job, company) =>
+    `Thank you for applying for ${job} and for the time you put into your application. ` +
+    `${company} has decided not to take your application further on this occasion. ` +
+    `This isn't a judgement on your ability — there are often many strong applicants for a single role. ` +
+    `We hope you find the right position soon, and new jobs are added to OsteoJob every week.`,
+}
+
+export function statusEmail({
+  status,
+  candidateName,
+  jobTitle,
+  jobId,
+  companyName,
+  message,
+}: {
+  status: NotifiedStatus
+  candidateName: string
+  jobTitle: string
+  jobId: string
+  companyName: string | null
+  message?: string | null
+}): RenderedEmail {
+  const company = companyName || 'The employer'
+  const label = APPLICATION_STATUSES[status].label
+  const personalMessage = message?.trim()
+
+  return renderEmail({
+    subject: status === 'rejected'
+      ? `Your application for ${jobTitle} – OsteoJob`
+      : `Application ${label.toLowerCase()}: ${jobTitle} – OsteoJob`,
+    header: 'Application Update',
+    body: [
+      intro({
+        lead: `Hi ${candidateName}, an update on your application for`,
+        title: jobTitle,
+        href: `${BASE_URL}/jobs/${jobId}`,
+      }),
+      paragraph(DEFAULT_MESSAGES[status](jobTitle, company)),
+      personalMessage ? quote(`Message from ${company}`, personalMessage) : null,
+      status === 'rejected'
+        ? buttons({ text: 'Browse Jobs', href: `${BASE_URL}/jobs` })
+        : buttons({ text: 'View in Dashboard', href: `${BASE_URL}/dashboard` }),
+    ],
+    footer: [
+      footerLine('Don’t want these emails? ', link('Turn off application updates', `${BASE_URL}/profile`), ' in your settings.'),
+    ],
+  })
+}
+
+export function withdrawnEmail({
+  candidateName,
+  jobTitle,
+  jobId,
+}: {
+  candidateName: string
+  jobTitle: string
+  jobId: string
+}): RenderedEmail {
+  return renderEmail({
+    subject: `${candidateName} withdrew their application for ${jobTitle} – OsteoJob`,
+    header: 'Application Withdrawn',
+    body: [
+      intro({ lead: 'An application has been withdrawn for', title: jobTitle, href: `${BASE_URL}/jobs/${jobId}` }),
+      paragraph(
+        strong(candidateName),
+        ' has withdrawn their application, so you don’t need to take it any further. ' +
+        'It stays in your applicant list, greyed out, for your records.'
+      ),
+      buttons({ text: 'View Applicants', href: `${BASE_URL}/dashboard/jobs/${jobId}/applicants` }),
+    ],
+  })
+}
@@ -0,0 +1,156 @@
+// Applications: status pipeline metadata and candidate/employer lookups
+
+import { supabase } from './supabase'
+import type { Application, ApplicationStatus, ApplicationStatusChange } from './supabase'
+import { authHeaders } from './auth'
+import type { ApplicationFieldErrors, ApplicationForm } from './application-form'
+
+export type OwnApplication = Pick<Application, 'id' | 'status' | 'applied_at'>
+
+// Postgres unique_violation, returned when the candidate already applied to the job
+export const DUPLICATE_APPLICATION_CODE = '23505'
+
+// Every applications column clients may read; employer_notes is private
+export const APPLICATION_COLUMNS =
+  'id, job_id, candidate_id, applicant_name, applicant_email, applicant_phone, ' +
+  'cover_letter, cv_url, screening_answers, status, applied_at, updated_at'
+
+// In pipeline order
+export const APPLICATION_STATUSES: Record<ApplicationStatus, {
+  label: string
+  // Action that moves an application to this status
+  action: string
+  badgeClass: string
+}> = {
+  pending: { label: 'Pending', action: 'Move back to pending', badgeClass: 'bg-yellow-100 text-yellow-700' },
+  reviewed: { label: 'Reviewed', action: 'Mark reviewed', badgeClass: 'bg-[#dce8f5] text-[#32487A]' },
+  shortlisted: { label: 'Shortlisted', action: 'Shortlist', badgeClass: 'bg-green-100 text-green-700' },
+  accepted: { label: 'Accepted', action: 'Accept', badgeClass: 'bg-emerald-600 text-white' },
+  rejected: { label: 'Rejected', action: 'Reject', badgeClass: 'bg-gray-100 text-gray-800' },
+  withdrawn: { label: 'Withdrawn', action: 'Withdraw', badgeClass: 'bg-gray-100 text-gray-500 line-through' },
+}
+
+// Statuses an employer can move an application to. Only the candidate can
+// withdraw, and a withdrawn application stays withdrawn.
+export type EmployerStatus = Exclude<ApplicationStatus, 'withdrawn'>
+
+export const EMPLOYER_STATUSES = (Object.keys(APPLICATION_STATUSES) as ApplicationStatus[])
+  .filter((status): status is EmployerStatus => status !== 'withdrawn')
+
+export function isEmployerStatus(value: unknown): value is EmployerStatus {
+  return typeof value === 'string' && (EMPLOYER_STATUSES as string[]).includes(value)
+}
+
+// Statuses the candidate is emailed about; moving back to pending is silent
+export type NotifiedStatus = Exclude<ApplicationStatus, 'pending' | 'withdrawn'>
+
+export function notifiesCandidate(status: ApplicationStatus): status is NotifiedStatus {
+  return status !== 'pending' && status !== 'withdrawn'
+}
+
+// The candidate's application to a job, if they have applied — there is at
+// most one per (job_id, candidate_id)
+export async function fetchOwnApplication(jobId: string, candidateId: string): Promise<OwnApplication | null> {
+  const { data } = await supabase
+    .from('applications')
+    .select('id, status, applied_at')
+    .eq('job_id', jobId)
+    .eq('candidate_id', candidateId)
+    .maybeSingle()
+  return data
+}
+
+export type SubmitApplicationResult =
+  | { application: OwnApplication; error?: undefined }
+  | {
+      application?: undefined
+      error: string
+      fieldErrors: ApplicationFieldErrors
+      // The candidate had already applied for the job
+      duplicate: boolean
+    }
+
+// Candidate side: apply for a job. The employer is emailed.
+export async function submitApplication(form: ApplicationForm): Promise<SubmitApplicationResult> {
+  const res = await fetch('/api/applications', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify(form),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (res.ok) return { application: json.application }
+  return {
+    error: json.error || 'Failed to submit application',
+    fieldErrors: json.fieldErrors || {},
+    duplicate: json.duplicate === true,
+  }
+}
+
+// Where the application is listed on the candidate dashboard
+export function dashboardApplicationUrl(applicationId: string): string {
+  return `/dashboard#application-${applicationId}`
+}
+
+// The employer's private notes, keyed by application id
+export async function fetchEmployerNotes(applicationIds: string[]): Promise<Record<string, string | null>> {
+  if (applicationIds.length === 0) return {}
+  const { data } = await supabase.rpc('employer_application_notes', { application_ids: applicationIds })
+  return Object.fromEntries(
+    ((data || []) as { application_id: string; employer_notes: string | null }[])
+      .map(row => [row.application_id, row.employer_notes])
+  )
+}
+
+// Applications to the employer's jobs, newest first, with status history and notes
+export async function fetchEmployerApplications(jobIds: string[]): Promise<Application[]> {
+  if (jobIds.length === 0) return []
+
+  const { data } = await supabase
+    .from('applications')
+    .select(`${APPLICATION_COLUMNS}, job:jobs(*), status_history:application_status_history(*)`)
+    .in('job_id', jobIds)
+    .order('applied_at', { ascending: false })
+    .order('changed_at', { referencedTable: 'status_history', ascending: true })
+
+  const applications = (data || []) as unknown as Application[]
+  const notes = await fetchEmployerNotes(applications.map(a => a.id))
+  return applications.map(a => ({ ...a, employer_notes: notes[a.id] ?? null }))
+}
+
+export type StatusUpdate = {
+  status: EmployerStatus
+  employer_notes?: string | null
+  // Personal message included in the email to the candidate
+  message?: string
+}
+
+export type StatusUpdateResult = {
+  status: ApplicationStatus
+  employer_notes: string | null
+  status_history: ApplicationStatusChange[]
+  // Whether the candidate was emailed about the change
+  emailed: boolean
+}
+
+// Employer side: move an application along the pipeline and/or update the note
+export async function updateApplicationStatus(applicationId: string, update: StatusUpdate): Promise<StatusUpdateResult> {
+  const res = await fetch(`/api/applications/${applicationId}/status`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify(update),
+  })
+  const json = await res.json()
+  if (!res.ok) throw new Error(json.error || 'Failed to update application')
+  return json
+}
+
+// Candidate side: withdraw an application. The employer is emailed.
+export async function withdrawApplication(applicationId: string): Promise<Pick<StatusUpdateResult, 'status' | 'status_history'>> {
+  const res = await fetch(`/api/applications/${applicationId}/withdraw`, {
+    method: 'POST',
+    headers: await authHeaders(),
+  })
+  const json = await res.json()
+  if (!res.ok) throw new Error(json.error || 'Failed to withdraw application')
+  return json
+}
@@ -0,0 +1,45 @@
+// Identifying the signed-in user in API routes
+
+import type { NextRequest } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import type { User } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// The access token from an `Authorization: Bearer` header, falling back to
+// the Supabase auth cookie
+function requestAccessToken(req: NextRequest): string | null {
+  const authorization = req.headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length)
+
+  const cookieHeader = req.headers.get('cookie') || ''
+  const tokenMatch = cookieHeader.match(/sb-[^=]+-auth-token=([^;]+)/)
+  if (!tokenMatch) return null
+
+  try {
+    const parsed = JSON.parse(decodeURIComponent(tokenMatch[1]))
+    return parsed.access_token ?? parsed[0]?.access_token ?? null
+  } catch {
+    return null
+  }
+}
+
+// The verified user behind the request, or null
+export async function getRequestUser(req: NextRequest): Promise<User | null> {
+  const accessToken = requestAccessToken(req)
+  if (!accessToken) return null
+
+  const userSupabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { global: { headers: { Authorization: `Bearer ${accessToken}` } } }
+  )
+
+  const { data: { user }, error } = await userSupabase.auth.getUser()
+  return error ? null : user
+}
+
+// Headers for calling our API routes as the signed-in user (browser side)
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
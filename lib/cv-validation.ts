@@ -0,0 +1,154 @@
+// Server-side checks on uploaded CVs. The file's contents decide its type,
+// not its name: a PDF, a Word 97-2003 .doc (an OLE compound file) or a .docx
+// (a ZIP package). Password-protected files are rejected because employers
+// can't open them, and macros, scripts and attachments because CVs don't
+// need them and they're how malware travels in documents.
+
+export type CvFormat = 'pdf' | 'doc' | 'docx'
+
+export const CV_CONTENT_TYPES: Record<CvFormat, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+}
+
+const NOT_A_CV = 'CV must be a PDF, DOC or DOCX file'
+const PASSWORD_PROTECTED = 'Password-protected CVs can’t be opened by employers — please upload a copy without a password'
+const HAS_MACROS = 'CVs containing macros aren’t accepted — please save your CV as a PDF or a .docx'
+const HAS_SCRIPTS = 'PDFs with scripts, actions or attached files aren’t accepted — please export a plain PDF'
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d] // %PDF-
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04] // PK\3\4
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte)
+}
+
+// The file's format, or an error message for the candidate
+export function inspectCv(bytes: Uint8Array): { format: CvFormat | null; error: string | null } {
+  const check = (format: CvFormat, error: string | null) => (error ? { format: null, error } : { format, error: null })
+
+  if (startsWith(bytes, PDF_SIGNATURE)) return check('pdf', pdfError(bytes))
+  if (startsWith(bytes, CFB_SIGNATURE)) return check('doc', compoundFileError(bytes))
+  if (startsWith(bytes, ZIP_SIGNATURE)) return check('docx', docxError(bytes))
+  return { format: null, error: NOT_A_CV }
+}
+
+// PDF objects can be compressed into object streams, so this only sees what
+// is stored in the clear. That covers what authoring tools write for
+// encryption and for actions on the document itself.
+function pdfError(bytes: Uint8Array): string | null {
+  const text = new TextDecoder('latin1').decode(bytes)
+  if (/\/Encrypt(?![A-Za-z0-9])/.test(text)) return PASSWORD_PROTECTED
+  if (/\/(?:JavaScript|JS|Launch|EmbeddedFile|RichMedia)(?![A-Za-z0-9])/.test(text)) return HAS_SCRIPTS
+  return null
+}
+
+type CompoundFileEntry = { name: string; start: number; size: number }
+
+const END_OF_CHAIN = 0xfffffffa
+
+// The storages and streams in an OLE compound file, or null if it's
+// malformed. Only the 109 FAT sectors listed in the header are read, which
+// covers files well over the CV size limit.
+function compoundFileEntries(bytes: Uint8Array): { entries: CompoundFileEntry[]; sectorSize: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < 512) return null
+
+  const sectorShift = view.getUint16(0x1e, true)
+  if (sectorShift !== 9 && sectorShift !== 12) return null
+  const sectorSize = 1 << sectorShift
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize
+
+  const fat: number[] = []
+  const fatSectors = Math.min(view.getUint32(0x2c, true), 109)
+  for (let i = 0; i < fatSectors; i++) {
+    const offset = sectorOffset(view.getUint32(0x4c + 4 * i, true))
+    if (offset + sectorSize > bytes.length) return null
+    for (let j = 0; j < sectorSize; j += 4) fat.push(view.getUint32(offset + j, true))
+  }
+
+  const entries: CompoundFileEntry[] = []
+  const visited = new Set<number>()
+  for (let sector = view.getUint32(0x30, true); sector < END_OF_CHAIN; sector = fat[sector] ?? END_OF_CHAIN) {
+    const offset = sectorOffset(sector)
+    if (visited.has(sector) || offset + sectorSize > bytes.length) return null
+    visited.add(sector)
+
+    for (let entry = offset; entry < offset + sectorSize; entry += 128) {
+      const nameLength = view.getUint16(entry + 64, true)
+      if (bytes[entry + 66] === 0 || nameLength < 2 || nameLength > 64) continue
+      entries.push({
+        name: new TextDecoder('utf-16le').decode(bytes.subarray(entry, entry + nameLength - 2)),
+        start: view.getUint32(entry + 116, true),
+        size: view.getUint32(entry + 120, true),
+      })
+    }
+  }
+  return { entries, sectorSize }
+}
+
+function compoundFileError(bytes: Uint8Array): string | null {
+  const file = compoundFileEntries(bytes)
+  if (!file) return NOT_A_CV
+
+  const names = new Set(file.entries.map(e => e.name))
+  // A password-protected .docx is an encrypted package inside a compound file
+  if (names.has('EncryptedPackage') || names.has('EncryptionInfo')) return PASSWORD_PROTECTED
+  if (names.has('Macros') || names.has('_VBA_PROJECT_CUR') || names.has('VBA')) return HAS_MACROS
+
+  // Anything else in a compound file (Excel, installers...) isn't a CV
+  const wordDocument = file.entries.find(e => e.name === 'WordDocument')
+  if (!wordDocument || wordDocument.size < 4096) return NOT_A_CV
+
+  // The FIB at the start of the WordDocument stream: wIdent, then the
+  // fEncrypted flag in the word at offset 10
+  const fib = (wordDocument.start + 1) * file.sectorSize
+  if (fib + 12 > bytes.length) return NOT_A_CV
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.getUint16(fib, true) !== 0xa5ec) return NOT_A_CV
+  if (view.getUint16(fib + 10, true) & 0x0100) return PASSWORD_PROTECTED
+
+  return null
+}
+
+// File names in a ZIP's central directory, or null if it's malformed
+function zipEntries(bytes: Uint8Array): { name: string; encrypted: boolean }[] | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // The end of central directory record, allowing for a trailing comment
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { end = i; break }
+  }
+  if (end === -1) return null
+
+  const entries: { name: string; encrypted: boolean }[] = []
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) return null
+    const nameLength = view.getUint16(offset + 28, true)
+    if (offset + 46 + nameLength > bytes.length) return null
+    entries.push({
+      name: new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      encrypted: (view.getUint16(offset + 8, true) & 1) === 1,
+    })
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true)
+  }
+  return entries
+}
+
+function docxError(bytes: Uint8Array): string | null {
+  const entries = zipEntries(bytes)
+  if (!entries) return NOT_A_CV
+
+  const names = entries.map(e => e.name.toLowerCase())
+  if (!names.includes('[content_types].xml') || !names.includes('word/document.xml')) return NOT_A_CV
+  if (entries.some(e => e.encrypted)) return PASSWORD_PROTECTED
+  if (names.some(name => name.endsWith('vbaproject.bin') || name.endsWith('vbadata.xml'))) return HAS_MACROS
+
+  return null
+}
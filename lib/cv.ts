@@ -0,0 +1,81 @@
+// CV uploads, shared by the apply form and the candidate's default CV on
+// /profile. The bucket is private: cv_url columns hold the path in the
+// bucket, and CVs are opened through short-lived signed URLs from /api/cvs.
+
+import { supabase } from './supabase'
+import { authHeaders } from './auth'
+import { CV_CONTENT_TYPES } from './cv-validation'
+import type { CvFormat } from './cv-validation'
+
+export const CV_BUCKET = 'cvs'
+
+// Where uploads wait until /api/cvs has checked them. Only the service role
+// can read it: the bucket's policies only cover <user id>-… names.
+export const CV_STAGING_FOLDER = 'uploads'
+
+export const CV_ACCEPT = '.pdf,.doc,.docx'
+export const CV_MAX_BYTES = 5 * 1024 * 1024
+
+// How long a signed CV link works for
+export const CV_URL_TTL_SECONDS = 5 * 60
+
+function cvExtension(file: File): CvFormat | null {
+  const ext = file.name.split('.').pop()?.toLowerCase()
+  return ext && CV_ACCEPT.split(',').includes(`.${ext}`) ? (ext as CvFormat) : null
+}
+
+// Quick checks before uploading. /api/cvs checks the contents as well.
+export function cvFileError(file: File): string | null {
+  if (!cvExtension(file)) return 'CV must be a PDF, DOC or DOCX file'
+  if (file.size > CV_MAX_BYTES) return 'CV must be 5MB or smaller'
+  return null
+}
+
+// Uploads the signed-in candidate's CV and returns its path in the bucket.
+// Throws with a message for the candidate if the file is rejected.
+export async function uploadCv(file: File): Promise<string> {
+  const problem = cvFileError(file)
+  if (problem) throw new Error(problem)
+
+  // The file goes straight to storage, then /api/cvs checks it
+  const headers = await authHeaders()
+  const start = await fetch('/api/cvs/upload-url', { method: 'POST', headers })
+  const upload = await start.json().catch(() => ({}))
+  if (!start.ok) throw new Error(upload.error || 'CV upload failed')
+
+  // Browsers don't always know a .doc's type, and the bucket only takes CV types
+  const typed = new Blob([file], { type: CV_CONTENT_TYPES[cvExtension(file)!] })
+  const { error } = await supabase.storage.from(CV_BUCKET).uploadToSignedUrl(upload.path, upload.token, typed)
+  if (error) throw new Error(`CV upload failed: ${error.message}`)
+
+  const res = await fetch('/api/cvs', {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ upload: upload.path }),
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json.error || 'CV upload failed')
+  return json.path
+}
+
+// Best effort: a leftover file only wastes storage
+export async function removeCv(path: string): Promise<void> {
+  await supabase.storage.from(CV_BUCKET).remove([path])
+}
+
+// Uploads are stored as <user id>-<timestamp>.<ext>, so this is all we can
+// say about a saved CV: "PDF uploaded 12/03/2026"
+export function describeCv(path: string): string {
+  const match = path.match(/-(\d{13})\.(\w+)$/)
+  if (!match) return 'Saved CV'
+  return `${match[2].toUpperCase()} uploaded ${new Date(Number(match[1])).toLocaleDateString()}`
+}
+
+// A signed link to a CV the signed-in user may see: their own, or one sent
+// to a job they posted
+export async function fetchCvUrl(path: string): Promise<string> {
+  const res = await fetch(`/api/cvs?path=${encodeURIComponent(path)}`, { headers: await authHeaders() })
+  const json = await res.json()
+  if (!res.ok) throw new Error(json.error || 'Could not open the CV')
+  return json.url
+}
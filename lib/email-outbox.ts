@@ -0,0 +1,182 @@
+// The durable email outbox. Routes queue messages instead of sending them
+// directly: each one is stored in email_outbox and sent straight away, and
+// one that can't be sent is retried by the email-outbox cron with
+// exponential backoff rather than lost. Server-side only (service role).
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendEmail } from './email'
+import type { EmailMessage } from './email'
+import { BASE_URL } from './email-template'
+import { isLinkSigningEnabled, signLink, verifyLinkToken } from './link-tokens'
+
+// Attempts before a message is marked failed: retries after 5, 10, 20...
+// minutes, about 10 hours in all
+export const MAX_ATTEMPTS = 8
+const RETRY_BASE_MINUTES = 5
+
+// How long a worker may hold a message while sending it
+const SEND_LEASE_MINUTES = 10
+
+// How long a delivery-log link from an admin email keeps working
+const ADMIN_LINK_DAYS = 30
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed'
+
+export type OutboxEmail = {
+  id: string
+  to_addresses: string[]
+  subject: string
+  html: string
+  text: string | null
+  reply_to: string | null
+  headers: Record<string, string> | null
+  status: OutboxStatus
+  attempts: number
+  last_error: string | null
+  next_attempt_at: string
+  sent_at: string | null
+  created_at: string
+}
+
+// Wait before the next attempt, after `attempts` failed ones
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_BASE_MINUTES * 2 ** (attempts - 1)
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60_000).toISOString()
+}
+
+// A lost write leaves the message 'sending' until its lease runs out, when it
+// is sent again, so it's worth a loud log line
+async function record(supabase: SupabaseClient, email: OutboxEmail, changes: Partial<OutboxEmail>): Promise<void> {
+  const { error } = await supabase.from('email_outbox').update(changes).eq('id', email.id)
+  if (error) {
+    console.error(`email outbox: could not record "${email.subject}" as ${changes.status}:`, error.message)
+  }
+}
+
+// Sends a message this worker holds and records the outcome
+async function deliver(supabase: SupabaseClient, email: OutboxEmail): Promise<OutboxStatus> {
+  const attempts = email.attempts + 1
+
+  try {
+    await sendEmail({
+      to: email.to_addresses,
+      subject: email.subject,
+      html: email.html,
+      text: email.text ?? undefined,
+      replyTo: email.reply_to ?? undefined,
+      headers: email.headers ?? undefined,
+    })
+  } catch (err) {
+    const status: OutboxStatus = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending'
+    await record(supabase, email, {
+      status,
+      attempts,
+      last_error: err instanceof Error ? err.message : String(err),
+      next_attempt_at: minutesFromNow(retryDelayMinutes(attempts)),
+    })
+    console.error(`email outbox: "${email.subject}" attempt ${attempts} failed:`, err)
+    return status
+  }
+
+  await record(supabase, email, { status: 'sent', attempts, last_error: null, sent_at: new Date().toISOString() })
+  return 'sent'
+}
+
+// Stores the message and tries to send it. Resolves once it's stored, even
+// if this first attempt fails; throws only if it can't be stored.
+export async function queueEmail(supabase: SupabaseClient, message: EmailMessage): Promise<OutboxStatus> {
+  const { data: email, error } = await supabase
+    .from('email_outbox')
+    .insert({
+      to_addresses: Array.isArray(message.to) ? message.to : [message.to],
+      subject: message.subject,
+      html: message.html,
+      text: message.text ?? null,
+      reply_to: message.replyTo ?? null,
+      headers: message.headers ?? null,
+      // Held by this request while it makes the first attempt
+      status: 'sending',
+      next_attempt_at: minutesFromNow(SEND_LEASE_MINUTES),
+    })
+    .select('*')
+    .single()
+
+  if (error) throw new Error(`Could not queue email: ${error.message}`)
+  return deliver(supabase, email)
+}
+
+// Takes a due message for this worker. The next_attempt_at match fails if
+// another worker took it first.
+async function claim(supabase: SupabaseClient, email: OutboxEmail): Promise<boolean> {
+  const { data } = await supabase
+    .from('email_outbox')
+    .update({ status: 'sending', next_attempt_at: minutesFromNow(SEND_LEASE_MINUTES) })
+    .eq('id', email.id)
+    .in('status', ['pending', 'sending'])
+    .eq('next_attempt_at', email.next_attempt_at)
+    .select('id')
+  return Boolean(data?.length)
+}
+
+// Sends messages that are due a retry, oldest first
+export async function processOutbox(
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<Record<'processed' | 'sent' | 'retrying' | 'failed', number>> {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .in('status', ['pending', 'sending'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw new Error(error.message)
+
+  const counts = { processed: 0, sent: 0, retrying: 0, failed: 0 }
+  for (const email of (data || []) as OutboxEmail[]) {
+    if (!(await claim(supabase, email))) continue
+    const status = await deliver(supabase, email)
+    counts.processed++
+    if (status === 'sent') counts.sent++
+    else if (status === 'failed') counts.failed++
+    else counts.retrying++
+  }
+  return counts
+}
+
+// Admin: try a failed message again now, with a fresh set of retries
+export async function resendOutboxEmail(supabase: SupabaseClient, id: string): Promise<OutboxStatus | null> {
+  const { data: email } = await supabase
+    .from('email_outbox')
+    .update({ status: 'sending', attempts: 0, next_attempt_at: minutesFromNow(SEND_LEASE_MINUTES) })
+    .eq('id', id)
+    .eq('status', 'failed')
+    .select('*')
+    .maybeSingle()
+
+  return email ? deliver(supabase, email) : null
+}
+
+// Links to the delivery log are signed and expire. Without ADMIN_SECRET
+// there are no links and the log is not served at all.
+export function isOutboxAdminEnabled(): boolean {
+  return isLinkSigningEnabled()
+}
+
+export function verifyOutboxAdminToken(token: string | null, expires: string | null): boolean {
+  const expiresAt = Number(expires)
+  if (!Number.isSafeInteger(expiresAt) || expiresAt < Date.now()) return false
+  return verifyLinkToken(`email-outbox:${expiresAt}`, token)
+}
+
+// The admin delivery log, linked from the admin's job-posted emails
+export function outboxAdminUrl(): string | null {
+  if (!isOutboxAdminEnabled()) return null
+  const expires = Date.now() + ADMIN_LINK_DAYS * 24 * 60 * 60 * 1000
+  const qs = new URLSearchParams({ expires: String(expires), token: signLink(`email-outbox:${expires}`) })
+  return `${BASE_URL}/api/admin/email-outbox?${qs}`
+}
@@ -0,0 +1,288 @@
+// Building blocks for OsteoJob's emails. Every email is a layout (header,
+// body, footer) filled with the components below, and each component
+// renders both its HTML and its line in the plain-text alternative.
+// Values interpolated by the `html` tag are escaped unless they are already
+// SafeHtml, so user input can be passed straight in.
+
+import { escapeHtml } from './email'
+
+export const BASE_URL = 'https://osteojob.com'
+
+// HTML that has already been escaped or is ours
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | null | undefined | false | HtmlValue[]
+
+function toHtml(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.value
+  if (Array.isArray(value)) return value.map(toHtml).join('')
+  if (value === null || value === undefined || value === false) return ''
+  return escapeHtml(String(value))
+}
+
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce((out, string, i) => out + string + (i < values.length ? toHtml(values[i]) : ''), ''))
+}
+
+// A component, or an inline run of text within one
+export type EmailPart = { html: SafeHtml; text: string }
+
+export type RenderedEmail = { subject: string; html: string; text: string }
+
+type Inline = string | EmailPart
+
+function inlineHtml(parts: Inline[]): SafeHtml {
+  return html`${parts.map(part => (typeof part === 'string' ? part : part.html))}`
+}
+
+function inlineText(parts: Inline[]): string {
+  return parts.map(part => (typeof part === 'string' ? part : part.text)).join('')
+}
+
+const COLORS = {
+  primary: '#2563eb',
+  success: '#16a34a',
+  warning: '#d97706',
+  danger: '#dc2626',
+}
+
+const SECTION_LABEL = 'font-size:11px;font-weight:bold;color:#6b7280;text-transform:uppercase;letter-spacing:0.8px;'
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+export function strong(text: string): EmailPart {
+  return { html: html`<strong>${text}</strong>`, text }
+}
+
+export function link(text: string, href: string): EmailPart {
+  return { html: html`<a href="${href}" style="color:inherit;">${text}</a>`, text: `${text} (${href})` }
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+// The opening lines: "You have a new application for" and the job title
+export function intro({ lead, title, href, subtitle }: {
+  lead?: string
+  title: string
+  href?: string
+  subtitle?: string
+}): EmailPart {
+  return {
+    html: html`
+      ${lead ? html`<p style="margin:0 0 6px;font-size:15px;color:#6b7280;">${lead}</p>` : ''}
+      <h1 style="margin:0 0 ${subtitle ? '4px' : '24px'};font-size:22px;color:#111827;font-weight:bold;">
+        ${href ? html`<a href="${href}" style="color:#111827;text-decoration:none;">${title}</a>` : title}
+      </h1>
+      ${subtitle ? html`<p style="margin:0 0 24px;font-size:13px;color:#9ca3af;">${subtitle}</p>` : ''}`,
+    text: [lead, href ? `${title} (${href})` : title, subtitle].filter(Boolean).join('\n'),
+  }
+}
+
+export function paragraph(...parts: Inline[]): EmailPart {
+  return {
+    html: html`<p style="margin:0 0 24px;font-size:15px;color:#374151;line-height:1.7;">${inlineHtml(parts)}</p>`,
+    text: inlineText(parts),
+  }
+}
+
+// Small, centred and grey
+export function note(text: string): EmailPart {
+  return {
+    html: html`<p style="margin:0 0 24px;font-size:13px;color:#6b7280;text-align:center;">${text}</p>`,
+    text,
+  }
+}
+
+export type DetailRow = {
+  label: string
+  value?: string | null
+  // Links the value, or with `button` shows it as a button
+  href?: string
+  button?: boolean
+}
+
+// A titled table of label/value rows. Empty values show as a dash.
+export function details(title: string, rows: DetailRow[]): EmailPart {
+  const cells = rows.map((row, i) => {
+    const border = i < rows.length - 1 ? 'border-bottom:1px solid #f3f4f6;' : ''
+    const value = row.value || '—'
+    const content = !row.href || !row.value
+      ? value
+      : row.button
+        ? html`<a href="${row.href}" style="display:inline-block;background:${COLORS.primary};color:#ffffff;text-decoration:none;font-size:13px;font-weight:bold;padding:8px 18px;border-radius:6px;">${value}</a>`
+        : html`<a href="${row.href}" style="color:${COLORS.primary};text-decoration:none;">${value}</a>`
+    return html`
+      <tr${i % 2 ? html` style="background:#fafafa;"` : ''}>
+        <td style="padding:14px 16px;font-size:13px;color:#9ca3af;font-weight:bold;width:130px;vertical-align:top;${border}">${row.label}</td>
+        <td style="padding:14px 16px;font-size:15px;color:#111827;white-space:pre-wrap;${border}">${content}</td>
+      </tr>`
+  })
+
+  return {
+    html: html`
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:8px;overflow:hidden;margin-bottom:28px;">
+        <tr>
+          <td colspan="2" style="background:#f9fafb;padding:12px 16px;${SECTION_LABEL}border-bottom:1px solid #e5e7eb;">${title}</td>
+        </tr>
+        ${cells}
+      </table>`,
+    text: [
+      title.toUpperCase(),
+      ...rows.map(row => `${row.label}: ${row.value || '—'}${row.button && row.href && row.value ? ` (${row.href})` : ''}`),
+    ].join('\n'),
+  }
+}
+
+// Free text the sender wrote, such as a cover letter, kept as typed
+export function quote(label: string, body: string): EmailPart {
+  return {
+    html: html`
+      <p style="margin:0 0 10px;${SECTION_LABEL}">${label}</p>
+      <div style="background:#f9fafb;border:1px solid #e5e7eb;border-radius:8px;padding:20px;font-size:15px;color:#374151;line-height:1.7;white-space:pre-wrap;margin-bottom:28px;">${body}</div>`,
+    text: `${label.toUpperCase()}\n${body}`,
+  }
+}
+
+export function notice(tone: 'success' | 'warning', title: string, body: string): EmailPart {
+  const style = tone === 'success'
+    ? { background: '#f0fdf4', border: '#bbf7d0', color: '#15803d' }
+    : { background: '#fffbeb', border: '#fde68a', color: '#92400e' }
+  return {
+    html: html`
+      <div style="background:${style.background};border:1px solid ${style.border};border-radius:8px;padding:14px 18px;margin-bottom:24px;">
+        <div style="font-size:13px;font-weight:bold;color:${style.color};margin-bottom:4px;">${title}</div>
+        <div style="font-size:13px;color:#6b7280;">${body}</div>
+      </div>`,
+    text: `${title}\n${body}`,
+  }
+}
+
+export type EmailButton = {
+  text: string
+  href: string
+  color?: keyof typeof COLORS
+}
+
+// One or more call-to-action buttons, centred in a row
+export function buttons(...list: EmailButton[]): EmailPart {
+  return {
+    html: html`
+      <table cellpadding="0" cellspacing="0" style="margin:8px auto 24px;">
+        <tr>
+          ${list.map((button, i) => html`
+          <td style="${i < list.length - 1 ? 'padding-right:12px;' : ''}">
+            <a href="${button.href}" style="display:inline-block;background:${COLORS[button.color || 'primary']};color:#ffffff;text-decoration:none;font-size:15px;font-weight:bold;padding:14px 32px;border-radius:8px;">${button.text}</a>
+          </td>`)}
+        </tr>
+      </table>`,
+    text: list.map(button => `${button.text}: ${button.href}`).join('\n'),
+  }
+}
+
+export type EmailLinkItem = {
+  title: string
+  href: string
+  details: string[]
+}
+
+// A list of linked items with a line of details under each, e.g. jobs
+export function linkList(items: EmailLinkItem[]): EmailPart {
+  return {
+    html: html`
+      <table width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:8px;overflow:hidden;margin-bottom:28px;">
+        ${items.map(item => html`
+        <tr>
+          <td style="padding:16px;border-bottom:1px solid #f3f4f6;">
+            <a href="${item.href}" style="font-size:16px;font-weight:bold;color:${COLORS.primary};text-decoration:none;">${item.title}</a>
+            <div style="font-size:13px;color:#6b7280;margin-top:4px;">${item.details.join(' • ')}</div>
+          </td>
+        </tr>`)}
+      </table>`,
+    text: items.map(item => [`* ${item.title}`, `  ${item.details.join(' • ')}`, `  ${item.href}`].join('\n')).join('\n\n'),
+  }
+}
+
+// A line in the footer, under "Sent by OsteoJob"
+export function footerLine(...parts: Inline[]): EmailPart {
+  return {
+    html: html`<p style="margin:6px 0 0;font-size:12px;color:#9ca3af;">${inlineHtml(parts)}</p>`,
+    text: inlineText(parts),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+const HEADER_TONES = {
+  default: { background: COLORS.primary, label: 'color:#bfdbfe;font-size:13px;' },
+  success: { background: COLORS.success, label: 'color:#ffffff;font-size:15px;font-weight:bold;' },
+  warning: { background: COLORS.warning, label: 'color:#ffffff;font-size:15px;font-weight:bold;' },
+}
+
+export function renderEmail({ subject, header, tone = 'default', body, footer = [] }: {
+  subject: string
+  // Shown under the logo, e.g. "New Job Application"
+  header: string
+  tone?: keyof typeof HEADER_TONES
+  body: (EmailPart | null | false | undefined)[]
+  footer?: EmailPart[]
+}): RenderedEmail {
+  const parts = body.filter((part): part is EmailPart => Boolean(part))
+  const headerTone = HEADER_TONES[tone]
+  const sentBy = footerLine('Sent by ', { html: html`<a href="${BASE_URL}" style="color:${COLORS.primary};text-decoration:none;">OsteoJob</a>`, text: 'OsteoJob' }, ' — the job board for osteopaths.')
+
+  const page = html`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8" /><title>${subject}</title></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:32px 16px;">
+    <tr><td align="center">
+      <table width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;">
+
+        <!-- Header -->
+        <tr>
+          <td style="background:${headerTone.background};border-radius:12px 12px 0 0;padding:28px 40px;text-align:center;">
+            <img src="${BASE_URL}/logo.png" alt="OsteoJob" width="160" style="display:block;margin:0 auto 10px;max-width:160px;" />
+            <div style="${headerTone.label}">${header}</div>
+          </td>
+        </tr>
+
+        <!-- Body -->
+        <tr>
+          <td style="background:#ffffff;padding:36px 40px;">
+            ${parts.map(part => part.html)}
+          </td>
+        </tr>
+
+        <!-- Footer -->
+        <tr>
+          <td style="background:#f9fafb;border-top:1px solid #e5e7eb;border-radius:0 0 12px 12px;padding:14px 40px 20px;text-align:center;">
+            ${[sentBy, ...footer].map(part => part.html)}
+          </td>
+        </tr>
+
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`
+
+  const text = [
+    `OsteoJob — ${header}`,
+    ...parts.map(part => part.text),
+    ['--', sentBy.text + ` ${BASE_URL}`, ...footer.map(part => part.text)].join('\n'),
+  ].join('\n\n')
+
+  return { subject, html: page.value, text: text + '\n' }
+}
@@ -0,0 +1,40 @@
+// Outgoing email, shared by the API routes
+
+import { emailTransport } from './email-transports'
+
+const FROM = 'OsteoJob <contact@osteojob.com>'
+
+export type EmailMessage = {
+  to: string | string[]
+  subject: string
+  html: string
+  // Plain-text alternative
+  text?: string
+  replyTo?: string
+  headers?: Record<string, string>
+}
+
+// For user-supplied text placed in an email's HTML. Templates get this
+// automatically through the html tag in ./email-template.
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function isEmailConfigured(): boolean {
+  return emailTransport() !== null
+}
+
+// Sends through the configured transport (see ./email-transports). Throws
+// when email is off or the message is not accepted.
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const transport = emailTransport()
+  if (!transport) {
+    throw new Error('Email not configured')
+  }
+  await transport.send({ from: FROM, ...message })
+}
@@ -0,0 +1,39 @@
+// Cached geocoding for server code. /jobs geocodes its "near" box on every
+// request and employers save the same towns again and again, so lookups are
+// cached per normalised place instead of reaching a network geocoder each time.
+
+import { unstable_cache } from 'next/cache'
+import { getGeocoder, placeKey } from './geocoding'
+import type { Geocoder } from './geocoding'
+
+// Places don't move; a week still picks up gazetteer updates soon enough
+const GEOCODE_CACHE_SECONDS = 7 * 24 * 60 * 60
+
+// Thrown inside the cached function so misses are never stored: Nominatim
+// also misses when it is rate limited or unreachable, and that mustn't stick
+// for a week
+class GeocodeMiss extends Error {}
+
+export function cachedGeocoder(): Geocoder {
+  const geocoder = getGeocoder()
+  const source = process.env.GEOCODER || 'gazetteer'
+  return {
+    async geocode(place) {
+      const lookup = unstable_cache(
+        async () => {
+          const coordinates = await geocoder.geocode(place)
+          if (!coordinates) throw new GeocodeMiss()
+          return coordinates
+        },
+        ['geocode', source, ...placeKey(place)],
+        { revalidate: GEOCODE_CACHE_SECONDS }
+      )
+      try {
+        return await lookup()
+      } catch (err) {
+        if (err instanceof GeocodeMiss) return null
+        throw err
+      }
+    },
+  }
+}
@@ -0,0 +1,245 @@
+// Geocoding job locations into coordinates, with a bundled offline gazetteer
+// and an optional network geocoder selected by the GEOCODER env variable
+
+import gazetteer from './data/gazetteer.json'
+
+export type Coordinates = {
+  latitude: number
+  longitude: number
+}
+
+export type PlaceQuery = {
+  city?: string | null
+  country?: string | null
+}
+
+export type Geocoder = {
+  geocode(place: PlaceQuery): Promise<Coordinates | null>
+}
+
+type GazetteerCity = [name: string, country: string, latitude: number, longitude: number, aliases?: string[]]
+
+const CITIES = gazetteer.cities as GazetteerCity[]
+const COUNTRY_CENTROIDS = gazetteer.countries as Record<string, number[]>
+
+// Other spellings of the countries used on the post-job form
+const COUNTRY_ALIASES: Record<string, string> = {
+  'uk': 'United Kingdom',
+  'great britain': 'United Kingdom',
+  'england': 'United Kingdom',
+  'scotland': 'United Kingdom',
+  'wales': 'United Kingdom',
+  'northern ireland': 'United Kingdom',
+  'jersey': 'United Kingdom',
+  'us': 'USA',
+  'united states': 'USA',
+  'united states of america': 'USA',
+  'uae': 'United Arab Emirates',
+}
+
+// Lowercase, strip accents and punctuation: "Bishop's Stortford" → "bishops stortford"
+function normalise(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+const CITY_INDEX = new Map<string, GazetteerCity[]>()
+for (const city of CITIES) {
+  for (const name of [city[0], ...(city[4] || [])]) {
+    const key = normalise(name)
+    CITY_INDEX.set(key, [...(CITY_INDEX.get(key) || []), city])
+  }
+}
+
+// Longest names first, so "Newcastle upon Tyne" wins over "Newcastle"
+const CITY_NAMES = [...CITY_INDEX.keys()].sort((a, b) => b.length - a.length)
+
+const COUNTRY_INDEX = new Map<string, string>()
+for (const country of Object.keys(COUNTRY_CENTROIDS)) {
+  COUNTRY_INDEX.set(normalise(country), country)
+}
+for (const [alias, country] of Object.entries(COUNTRY_ALIASES)) {
+  COUNTRY_INDEX.set(alias, country)
+}
+
+// Map free-text country spellings ("New-Zealand", "UK") onto the form's names
+export function canonicalCountry(value?: string | null): string | null {
+  if (!value) return null
+  return COUNTRY_INDEX.get(normalise(value)) ?? null
+}
+
+export function countryCentroid(country?: string | null): Coordinates | null {
+  const name = canonicalCountry(country)
+  if (!name) return null
+  const [latitude, longitude] = COUNTRY_CENTROIDS[name]
+  return { latitude, longitude }
+}
+
+function pickCity(key: string, country: string | null): GazetteerCity | undefined {
+  const matches = CITY_INDEX.get(key)
+  if (!matches) return undefined
+  return country ? matches.find(c => c[1] === country) : matches[0]
+}
+
+// Employers type anything into the city field: "Bristol / Portishead",
+// "Central London", "Napier, Hawke's Bay", "Brighton & Hove BN1". Try the
+// whole value, then each part, then any known city named inside a part.
+function lookupCity(city: string, country: string | null): GazetteerCity | undefined {
+  const parts = [city, ...city.split(/[,/()&;]|\s+-\s+|\s+and\s+/i)]
+    .map(p => normalise(p).replace(/\b\w*\d\w*\b/g, '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+
+  for (const part of parts) {
+    const match = pickCity(part, country)
+    if (match) return match
+  }
+  for (const part of parts) {
+    for (const name of CITY_NAMES) {
+      if (name.length > part.length) continue
+      if (` ${part} `.includes(` ${name} `)) {
+        const match = pickCity(name, country)
+        if (match) return match
+      }
+    }
+  }
+  return undefined
+}
+
+// Offline lookup against lib/data/gazetteer.json. Only city-level matches
+// count: a job with an unknown city stays without coordinates rather than
+// being placed at the middle of its country.
+export function createGazetteerGeocoder(): Geocoder {
+  return {
+    async geocode({ city, country }) {
+      if (!city?.trim()) return null
+      const match = lookupCity(city, canonicalCountry(country))
+      return match ? { latitude: match[2], longitude: match[3] } : null
+    },
+  }
+}
+
+// Cache key for a place: the normalised city and country, so "Bristol, UK"
+// and "bristol, United Kingdom" share one lookup
+export function placeKey({ city, country }: PlaceQuery): string[] {
+  return [normalise(city || ''), canonicalCountry(country) ?? normalise(country || '')]
+}
+
+// Nominatim's usage policy allows at most one request per second. Requests
+// from this server wait their turn, each starting a little over a second
+// after the one before.
+const NOMINATIM_INTERVAL_MS = 1100
+let nominatimTurn: Promise<void> = Promise.resolve()
+
+function nextNominatimTurn(): Promise<void> {
+  const turn = nominatimTurn
+  nominatimTurn = turn.then(() => new Promise(resolve => setTimeout(resolve, NOMINATIM_INTERVAL_MS)))
+  return turn
+}
+
+// OpenStreetMap Nominatim — covers every village, but needs network access
+// and is throttled as above, so it is opt-in.
+export function createNominatimGeocoder(
+  endpoint = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org'
+): Geocoder {
+  return {
+    async geocode({ city, country }) {
+      if (!city?.trim()) return null
+      const qs = new URLSearchParams({ format: 'json', limit: '1', city: city.trim() })
+      const countryName = canonicalCountry(country) ?? country
+      if (countryName) qs.set('country', countryName)
+
+      try {
+        await nextNominatimTurn()
+        const res = await fetch(`${endpoint}/search?${qs}`, {
+          headers: { 'User-Agent': 'OsteoJob/1.0 (https://osteojob.com)' },
+        })
+        if (!res.ok) return null
+        const results: { lat: string; lon: string }[] = await res.json()
+        if (!results.length) return null
+        return { latitude: parseFloat(results[0].lat), longitude: parseFloat(results[0].lon) }
+      } catch {
+        return null
+      }
+    },
+  }
+}
+
+// Ask each geocoder in turn until one finds the place
+export function chainGeocoders(...geocoders: Geocoder[]): Geocoder {
+  return {
+    async geocode(place) {
+      for (const geocoder of geocoders) {
+        const result = await geocoder.geocode(place)
+        if (result) return result
+      }
+      return null
+    },
+  }
+}
+
+// GEOCODER=nominatim tries Nominatim first and falls back to the gazetteer;
+// anything else (the default) stays offline
+export function getGeocoder(): Geocoder {
+  const gazetteerGeocoder = createGazetteerGeocoder()
+  if (process.env.GEOCODER === 'nominatim') {
+    return chainGeocoders(createNominatimGeocoder(), gazetteerGeocoder)
+  }
+  return gazetteerGeocoder
+}
+
+// Resolve a free-text place typed into the /jobs "near" box, such as
+// "Bristol" or "Perth, Australia". The selected country filter, if any,
+// disambiguates names that exist in several countries.
+export async function geocodePlace(
+  text: string,
+  countryHint?: string | null,
+  geocoder: Geocoder = getGeocoder()
+): Promise<Coordinates | null> {
+  const parts = text.split(',').map(p => p.trim()).filter(Boolean)
+  const lastAsCountry = parts.length > 1 ? canonicalCountry(parts[parts.length - 1]) : null
+  const city = lastAsCountry ? parts.slice(0, -1).join(', ') : text
+  const country = lastAsCountry ?? canonicalCountry(countryHint)
+
+  const match = await geocoder.geocode({ city, country })
+  if (match || !country) return match
+  // A hint from the country filter shouldn't hide a place named elsewhere
+  return lastAsCountry ? null : geocoder.geocode({ city })
+}
+
+// Coordinates for a job location, from the post and edit job forms. Pass the
+// employer's authHeaders(). A location we can't place is saved without them.
+export async function fetchCoordinates(
+  city: string,
+  country: string,
+  headers: Record<string, string>
+): Promise<{ latitude: number | null; longitude: number | null }> {
+  try {
+    const res = await fetch(`/api/geocode?${new URLSearchParams({ city, country })}`, { headers })
+    if (!res.ok) return { latitude: null, longitude: null }
+    const data = await res.json()
+    return { latitude: data.latitude ?? null, longitude: data.longitude ?? null }
+  } catch {
+    return { latitude: null, longitude: null }
+  }
+}
+
+// Great-circle distance in kilometres (haversine), matching distance_km() in SQL
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = rad(to.latitude - from.latitude)
+  const dLng = rad(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(from.latitude)) * Math.cos(rad(to.latitude)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+export function formatDistance(km: number): string {
+  if (km < 1) return '< 1 km'
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`
+}
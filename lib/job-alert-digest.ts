@@ -0,0 +1,102 @@
+// Server-side half of job alerts: matching new jobs, the digest email and
+// unsubscribe tokens. Used by the job-alerts cron and unsubscribe routes.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Job, JobAlert } from './supabase'
+import { applyJobFilters, jobsUrl } from './job-search'
+import { jobSalaryText } from './salary'
+import { describeAlert, jobFiltersFromAlert } from './job-alerts'
+import { BASE_URL, buttons, footerLine, intro, link, linkList, note, renderEmail } from './email-template'
+import type { RenderedEmail } from './email-template'
+import { signLink, verifyLinkToken } from './link-tokens'
+
+// Jobs listed in one digest; the rest are summarised as "and N more"
+export const DIGEST_LIMIT = 10
+
+type DigestJob = Pick<
+  Job,
+  'id' | 'title' | 'job_type' | 'location_country' | 'location_city' |
+  'salary_range' | 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_period'
+> & {
+  employer: { company_name: string | null } | null
+}
+
+// Digests are only sent when links can be signed (see isLinkSigningEnabled)
+function unsubscribeMessage(alertId: string): string {
+  return `job-alert:${alertId}:unsubscribe`
+}
+
+export function verifyAlertUnsubscribeToken(alertId: string, token: string): boolean {
+  return verifyLinkToken(unsubscribeMessage(alertId), token)
+}
+
+export function alertUnsubscribeUrl(alertId: string): string {
+  return `${BASE_URL}/api/job-alerts/unsubscribe?id=${alertId}&token=${signLink(unsubscribeMessage(alertId))}`
+}
+
+// Active jobs matching the alert that went live after `since`, newest first
+export async function findAlertMatches(
+  supabase: SupabaseClient,
+  alert: JobAlert,
+  since: string
+): Promise<{ jobs: DigestJob[]; total: number }> {
+  const filters = jobFiltersFromAlert(alert)
+  const columns = `
+    id, title, job_type, location_country, location_city,
+    salary_range, salary_min, salary_max, salary_currency, salary_period,
+    employer:profiles!employer_id(company_name)
+  `
+
+  let query = filters.search
+    ? supabase.rpc('search_jobs', { search_query: filters.search }, { count: 'exact' }).select(columns)
+    : supabase.from('jobs').select(columns, { count: 'exact' })
+
+  query = applyJobFilters(query.eq('status', 'active').gt('activated_at', since), filters)
+
+  const { data, count, error } = await query
+    .order('activated_at', { ascending: false })
+    .limit(DIGEST_LIMIT)
+
+  if (error) throw new Error(error.message)
+  return { jobs: (data || []) as unknown as DigestJob[], total: count || 0 }
+}
+
+export function digestEmail(
+  alert: JobAlert,
+  candidateName: string | null,
+  jobs: DigestJob[],
+  total: number
+): RenderedEmail {
+  const more = total - jobs.length
+
+  return renderEmail({
+    subject: `${total} new ${total === 1 ? 'job' : 'jobs'} for “${alert.name}” – OsteoJob`,
+    header: `Your ${alert.frequency} job alert`,
+    body: [
+      intro({
+        lead: `Hi${candidateName ? ` ${candidateName}` : ''}, new jobs matching`,
+        title: alert.name,
+        subtitle: describeAlert(alert),
+      }),
+      linkList(jobs.map(job => ({
+        title: job.title,
+        href: `${BASE_URL}/jobs/${job.id}`,
+        details: [
+          job.employer?.company_name,
+          [job.location_city, job.location_country].filter(Boolean).join(', '),
+          job.job_type,
+          jobSalaryText(job),
+        ].filter(Boolean) as string[],
+      }))),
+      more > 0 && note(`…and ${more} more.`),
+      buttons({ text: 'See all matching jobs', href: `${BASE_URL}${jobsUrl(jobFiltersFromAlert(alert))}` }),
+    ],
+    footer: [
+      footerLine(
+        link('Manage alerts', `${BASE_URL}/dashboard`),
+        ' · ',
+        link('Unsubscribe from this alert', alertUnsubscribeUrl(alert.id))
+      ),
+    ],
+  })
+}
@@ -0,0 +1,47 @@
+// Saved searches ("job alerts"): converting between alerts and /jobs filters
+
+import type { JobAlert } from './supabase'
+import type { JobFilters } from './job-search'
+
+export const ALERT_FREQUENCIES: Record<JobAlert['frequency'], { label: string; hours: number }> = {
+  daily: { label: 'Daily', hours: 24 },
+  weekly: { label: 'Weekly', hours: 24 * 7 },
+}
+
+// The part of a /jobs filter set that an alert remembers
+export type AlertFilters = Pick<JobAlert, 'search' | 'location' | 'job_types' | 'specialty'>
+
+export function alertFiltersFromJobFilters(filters: JobFilters): AlertFilters {
+  return {
+    search: filters.search ?? null,
+    location: filters.location ?? null,
+    job_types: filters.types,
+    specialty: filters.specialty ?? null,
+  }
+}
+
+export function jobFiltersFromAlert(alert: AlertFilters): JobFilters {
+  return {
+    search: alert.search ?? undefined,
+    location: alert.location ?? undefined,
+    types: alert.job_types,
+    specialty: alert.specialty ?? undefined,
+    hasSalary: false,
+  }
+}
+
+// "Sports Full Time jobs in France matching “rehab”"
+export function describeAlert(alert: AlertFilters): string {
+  const kind = [alert.specialty, alert.job_types.join(' / ')].filter(Boolean).join(' ')
+  let text = `${kind ? `${kind} jobs` : 'All jobs'}${alert.location ? ` in ${alert.location}` : ''}`
+  if (alert.search) text += ` matching “${alert.search}”`
+  return text
+}
+
+// Cron runs drift by a few minutes, so allow an hour of slack before skipping
+// an alert until the next run
+export function isAlertDue(alert: Pick<JobAlert, 'frequency' | 'last_sent_at'>, now = new Date()): boolean {
+  if (!alert.last_sent_at) return true
+  const hours = ALERT_FREQUENCIES[alert.frequency].hours - 1
+  return now.getTime() - new Date(alert.last_sent_at).getTime() >= hours * 60 * 60 * 1000
+}
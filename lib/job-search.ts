@@ -0,0 +1,254 @@
+// Helpers shared by the /jobs listing: URL params, filters, paging and link building
+
+import type { Coordinates } from './geocoding'
+
+export const JOBS_PAGE_SIZE = 20
+
+// The map plots every matching job rather than a page, up to this many
+export const MAP_JOB_LIMIT = 1000
+
+export type JobView = 'list' | 'map'
+
+export const JOB_TYPES = ['Full Time', 'Part Time', 'Locum', 'Contract', 'Internship']
+
+export const SPECIALTIES = ['Structural', 'Cranial', 'Visceral', 'Pediatric', 'Sports', 'Functional']
+
+export const POSTED_WITHIN: Record<string, { label: string; hours: number }> = {
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7 },
+  '30d': { label: 'Last 30 days', hours: 24 * 30 },
+}
+
+export const RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100, 250]
+
+export const DEFAULT_RADIUS_KM = 25
+
+export type JobSort = 'relevance' | 'closest' | 'newest' | 'salary' | 'expiring' | 'views'
+
+export const JOB_SORTS: Record<JobSort, string> = {
+  relevance: 'Most relevant',
+  closest: 'Closest',
+  newest: 'Newest',
+  salary: 'Highest salary',
+  expiring: 'Expiring soonest',
+  views: 'Most viewed',
+}
+
+// Raw search params as Next.js hands them to a page
+export type RawSearchParams = Record<string, string | string[] | undefined>
+
+export type JobFilters = {
+  search?: string
+  location?: string
+  city?: string
+  types: string[]
+  specialty?: string
+  posted?: string
+  hasSalary: boolean
+  near?: string
+  radius?: number
+  sort?: JobSort
+}
+
+export type FacetCounts = Record<string, number>
+
+// Counts per option for each filter, as returned by the job_facets() RPC
+export type JobFacets = {
+  location: FacetCounts
+  type: FacetCounts
+  specialty: FacetCounts
+}
+
+// Minimal shape of a supabase-js filter builder, so the same filters can be
+// applied to a table query or to the search_jobs() RPC
+type FilterableQuery<Q> = {
+  eq(column: string, value: string): Q
+  in(column: string, values: string[]): Q
+  ilike(column: string, pattern: string): Q
+  gte(column: string, value: string): Q
+  or(filters: string): Q
+}
+
+type SortableQuery<Q> = {
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): Q
+}
+
+function first(value: string | string[] | undefined): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value
+  return v?.trim() || undefined
+}
+
+function all(value: string | string[] | undefined): string[] {
+  if (!value) return []
+  return (Array.isArray(value) ? value : [value]).map(v => v.trim()).filter(Boolean)
+}
+
+export function parsePage(value?: string | string[]): number {
+  const page = parseInt(first(value) || '', 10)
+  return Number.isFinite(page) && page > 1 ? page : 1
+}
+
+export function parseJobView(value?: string | string[]): JobView {
+  return first(value) === 'map' ? 'map' : 'list'
+}
+
+export function parseJobFilters(params: RawSearchParams): JobFilters {
+  const posted = first(params.posted)
+  const sort = first(params.sort)
+  const radius = Number(first(params.radius))
+  return {
+    search: first(params.search),
+    location: first(params.location),
+    city: first(params.city),
+    types: all(params.type).filter(t => JOB_TYPES.includes(t)),
+    specialty: first(params.specialty),
+    posted: posted && POSTED_WITHIN[posted] ? posted : undefined,
+    hasSalary: first(params.salary) === '1',
+    near: first(params.near),
+    radius: RADIUS_OPTIONS_KM.includes(radius) ? radius : undefined,
+    sort: sort && sort in JOB_SORTS ? (sort as JobSort) : undefined,
+  }
+}
+
+// Relevance only means something with a search term and closest only with a
+// "near" place; each is the default when it applies
+export function effectiveSort(filters: JobFilters): JobSort {
+  const fallback = filters.search ? 'relevance' : filters.near ? 'closest' : 'newest'
+  if (filters.sort === 'relevance' && !filters.search) return fallback
+  if (filters.sort === 'closest' && !filters.near) return fallback
+  return filters.sort || fallback
+}
+
+export function hasActiveFilters(filters: JobFilters): boolean {
+  return Boolean(
+    filters.search || filters.location || filters.city || filters.types.length ||
+    filters.specialty || filters.posted || filters.hasSalary || filters.near
+  )
+}
+
+function postedSince(filters: JobFilters): string | null {
+  if (!filters.posted) return null
+  const hours = POSTED_WITHIN[filters.posted].hours
+  return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+}
+
+// Escape LIKE wildcards so a city search is matched literally
+function likeEscape(value: string): string {
+  return value.replace(/[\\%_]/g, c => `\\${c}`)
+}
+
+// Apply every filter except the free-text search and the radius, which are
+// handled by the search_jobs() RPC (see searchJobsArgs)
+export function applyJobFilters<Q extends FilterableQuery<Q>>(query: Q, filters: JobFilters): Q {
+  if (filters.location) {
+    query = query.eq('location_country', filters.location)
+  }
+  if (filters.city) {
+    query = query.ilike('location_city', `%${likeEscape(filters.city)}%`)
+  }
+  if (filters.types.length > 0) {
+    query = query.in('job_type', filters.types)
+  }
+  if (filters.specialty) {
+    query = query.eq('category', filters.specialty)
+  }
+  const since = postedSince(filters)
+  if (since) {
+    query = query.gte('posted_date', since)
+  }
+  if (filters.hasSalary) {
+    query = query.or('salary_min.not.is.null,salary_max.not.is.null')
+  }
+  return query
+}
+
+// Arguments for the search_jobs() RPC
+export function searchJobsArgs(filters: JobFilters, origin: Coordinates | null) {
+  return {
+    search_query: filters.search ?? null,
+    near_lat: origin?.latitude ?? null,
+    near_lng: origin?.longitude ?? null,
+    radius_km: filters.radius ?? DEFAULT_RADIUS_KM,
+    sort_by_distance: effectiveSort(filters) === 'closest',
+  }
+}
+
+// Featured jobs are pinned first whatever the sort. Relevance and closest
+// need no ordering here: search_jobs() already returns featured jobs, then
+// best match or nearest.
+export function applyJobSort<Q extends SortableQuery<Q>>(query: Q, filters: JobFilters): Q {
+  const sort = effectiveSort(filters)
+  if (sort === 'relevance' || sort === 'closest') return query
+
+  query = query.order('featured', { ascending: false })
+  switch (sort) {
+    case 'salary':
+      query = query.order('salary_sort_value', { ascending: false, nullsFirst: false })
+      break
+    case 'expiring':
+      query = query.order('expiry_date', { ascending: true, nullsFirst: false })
+      break
+    case 'views':
+      query = query.order('view_count', { ascending: false })
+      break
+  }
+  return query.order('posted_date', { ascending: false })
+}
+
+// Arguments for the job_facets() RPC, mirroring applyJobFilters
+export function jobFacetArgs(filters: JobFilters, origin: Coordinates | null = null) {
+  return {
+    search_query: filters.search ?? null,
+    filter_country: filters.location ?? null,
+    filter_city: filters.city ?? null,
+    filter_types: filters.types.length > 0 ? filters.types : null,
+    filter_specialty: filters.specialty ?? null,
+    posted_since: postedSince(filters),
+    salary_only: filters.hasSalary,
+    near_lat: origin?.latitude ?? null,
+    near_lng: origin?.longitude ?? null,
+    radius_km: filters.radius ?? DEFAULT_RADIUS_KM,
+  }
+}
+
+// Options worth offering for a facet: anything with matching jobs, plus the
+// current selection so it never silently disappears from the form
+export function facetOptions(counts: FacetCounts, options: string[], selected: string[] = []): string[] {
+  return options.filter(o => (counts[o] || 0) > 0 || selected.includes(o))
+}
+
+// Build a /jobs URL for the given filters, keeping every active filter.
+// Page 1 and the default list view are left out so the canonical listing
+// URL stays clean.
+export function jobsUrl(filters: JobFilters, page = 1, view: JobView = 'list'): string {
+  const qs = new URLSearchParams()
+
+  if (filters.search) qs.set('search', filters.search)
+  if (filters.location) qs.set('location', filters.location)
+  if (filters.city) qs.set('city', filters.city)
+  for (const type of filters.types) qs.append('type', type)
+  if (filters.specialty) qs.set('specialty', filters.specialty)
+  if (filters.posted) qs.set('posted', filters.posted)
+  if (filters.hasSalary) qs.set('salary', '1')
+  if (filters.near) qs.set('near', filters.near)
+  if (filters.near && filters.radius) qs.set('radius', String(filters.radius))
+  if (filters.sort) qs.set('sort', filters.sort)
+  if (view === 'map') qs.set('view', 'map')
+  if (page > 1) qs.set('page', String(page))
+
+  const query = qs.toString()
+  return query ? `/jobs?${query}` : '/jobs'
+}
+
+// Page numbers to show around the current page, with null marking a gap
+export function pageWindow(current: number, total: number, radius = 2): (number | null)[] {
+  const pages: (number | null)[] = []
+  for (let p = 1; p <= total; p++) {
+    if (p === 1 || p === total || Math.abs(p - current) <= radius) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
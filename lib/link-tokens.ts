@@ -0,0 +1,23 @@
+// HMAC tokens for links sent by email (unsubscribe, the delivery log), signed
+// with ADMIN_SECRET. Without the secret anyone could compute them, so then
+// none are issued and none are accepted. Server-side only.
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export function isLinkSigningEnabled(): boolean {
+  return Boolean(process.env.ADMIN_SECRET)
+}
+
+// Check isLinkSigningEnabled() first; throws when ADMIN_SECRET is not set
+export function signLink(message: string): string {
+  const secret = process.env.ADMIN_SECRET
+  if (!secret) throw new Error('ADMIN_SECRET is not set')
+  return createHmac('sha256', secret).update(message).digest('hex').slice(0, 32)
+}
+
+export function verifyLinkToken(message: string, token: string | null): boolean {
+  if (!isLinkSigningEnabled() || !token) return false
+  const expected = Buffer.from(signLink(message))
+  const given = Buffer.from(token)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
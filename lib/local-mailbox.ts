@@ -0,0 +1,80 @@
+// The local email driver's mailbox: each message is written to .mailbox/ as
+// <id>.json (for the /dev/mailbox viewer) and <id>.eml (to open in a mail
+// client). Development only.
+
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import MailComposer from 'nodemailer/lib/mail-composer'
+
+const MAILBOX_DIR = process.env.LOCAL_MAILBOX_DIR || join(process.cwd(), '.mailbox')
+
+export type MailboxMessage = {
+  id: string
+  date: string
+  from: string
+  to: string[]
+  subject: string
+  html: string
+  text: string | null
+  replyTo: string | null
+  headers: Record<string, string>
+}
+
+// Summary for the inbox list
+export type MailboxEntry = Pick<MailboxMessage, 'id' | 'date' | 'to' | 'subject'>
+
+function isMessageId(id: string): boolean {
+  return /^[\w-]+$/.test(id)
+}
+
+export function mailboxEmlPath(id: string): string | null {
+  return isMessageId(id) ? join(MAILBOX_DIR, `${id}.eml`) : null
+}
+
+// Returns the new message's id
+export async function saveToMailbox(message: Omit<MailboxMessage, 'id' | 'date'>): Promise<string> {
+  const date = new Date()
+  // Sorts by time, newest last
+  const id = `${date.getTime()}-${randomUUID().slice(0, 8)}`
+
+  const eml = await new MailComposer({
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text ?? undefined,
+    replyTo: message.replyTo ?? undefined,
+    headers: message.headers,
+    date,
+  }).compile().build()
+
+  await mkdir(MAILBOX_DIR, { recursive: true })
+  await writeFile(join(MAILBOX_DIR, `${id}.eml`), eml)
+  await writeFile(join(MAILBOX_DIR, `${id}.json`), JSON.stringify({ id, date: date.toISOString(), ...message }, null, 2))
+  return id
+}
+
+// Newest first
+export async function listMailbox(): Promise<MailboxEntry[]> {
+  const files = await readdir(MAILBOX_DIR).catch(() => [] as string[])
+  const ids = files
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort()
+    .reverse()
+
+  const messages = await Promise.all(ids.map(readMailboxMessage))
+  return messages
+    .filter((message): message is MailboxMessage => message !== null)
+    .map(({ id, date, to, subject }) => ({ id, date, to, subject }))
+}
+
+export async function readMailboxMessage(id: string): Promise<MailboxMessage | null> {
+  if (!isMessageId(id)) return null
+  try {
+    return JSON.parse(await readFile(join(MAILBOX_DIR, `${id}.json`), 'utf8'))
+  } catch {
+    return null
+  }
+}
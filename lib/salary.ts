@@ -0,0 +1,319 @@
+// Structured salaries: parsing legacy salary_range text, formatting and schema.org output
+
+export type SalaryPeriod = 'hour' | 'day' | 'session' | 'month' | 'year'
+
+export type Salary = {
+  min: number | null
+  max: number | null
+  currency: string
+  period: SalaryPeriod | null
+}
+
+export const SALARY_PERIODS: Record<SalaryPeriod, string> = {
+  hour: 'per hour',
+  day: 'per day',
+  session: 'per session',
+  month: 'per month',
+  year: 'per year',
+}
+
+// Local currency for every country offered on the post-job form
+export const COUNTRY_CURRENCIES: Record<string, string> = {
+  'Australia': 'AUD',
+  'Barbados': 'BBD',
+  'Belgium': 'EUR',
+  'Cambodia': 'USD',
+  'Canada': 'CAD',
+  'Caribbean': 'USD',
+  'China': 'CNY',
+  'Cyprus': 'EUR',
+  'France': 'EUR',
+  'Germany': 'EUR',
+  'Gibraltar': 'GBP',
+  'Hong Kong': 'HKD',
+  'Iceland': 'ISK',
+  'Indonesia': 'IDR',
+  'Ireland': 'EUR',
+  'Italy': 'EUR',
+  'Malta': 'EUR',
+  'Netherlands': 'EUR',
+  'New Zealand': 'NZD',
+  'Oman': 'OMR',
+  'Portugal': 'EUR',
+  'Senegal': 'XOF',
+  'Seychelles': 'SCR',
+  'Singapore': 'SGD',
+  'Spain': 'EUR',
+  'Switzerland': 'CHF',
+  'Thailand': 'THB',
+  'United Arab Emirates': 'AED',
+  'United Kingdom': 'GBP',
+  'USA': 'USD',
+}
+
+export const CURRENCIES = [...new Set(['GBP', 'EUR', 'USD', ...Object.values(COUNTRY_CURRENCIES)])]
+
+const DOLLAR_CURRENCIES = ['USD', 'AUD', 'CAD', 'NZD', 'SGD', 'HKD', 'BBD']
+
+// Explicit markers, checked before falling back to the job's country. Codes
+// may run straight into the amount ("SGD60,000"), so they end at any non-letter.
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/\bNZ\$|\bNZD(?![a-z])/i, 'NZD'],
+  [/\bA\$|\bAUD(?![a-z])/i, 'AUD'],
+  [/\bC\$|\bCAD(?![a-z])/i, 'CAD'],
+  [/\bS\$|\bSGD(?![a-z])/i, 'SGD'],
+  [/\bHK\$|\bHKD(?![a-z])/i, 'HKD'],
+  [/\bUS\$|\bUSD(?![a-z])/i, 'USD'],
+  [/£|\bGBP(?![a-z])/i, 'GBP'],
+  [/€|\bEUR(?![a-z])|\beuros?\b/i, 'EUR'],
+  [/\bCHF(?![a-z])/i, 'CHF'],
+  [/\bAED(?![a-z])|\bdirhams?\b/i, 'AED'],
+]
+
+// "monthly" on its own is left out: it mostly describes bonuses, not the pay
+const PERIOD_MARKERS: [RegExp, SalaryPeriod][] = [
+  [/per\s+hr\b|\/\s*h(ou)?r\b|\bhourly\b|\bp\/?h\b|\bhour\b/i, 'hour'],
+  [/per\s+(day|shift)|\/\s*day\b|\bdaily\b|a\s+day\b/i, 'day'],
+  [/per\s+(session|patient|treatment|appointment)|\/\s*(session|patient)\b|a\s+session\b/i, 'session'],
+  [/per\s+(calendar\s+)?month|\/\s*(month|mois)\b|a\s+month\b|\bpar\s+mois\b|\bp\.?c\.?m\b/i, 'month'],
+  [/per\s+(year|annum)|\bp\.?a\.?(?=\s|$|[),.])|\bannual(ly)?\b|\byearly\b|\/\s*y(ea)?r\b|\bsalary\b|\bOTE\b/i, 'year'],
+]
+
+const AMOUNT = String.raw`(\d{1,3}(?:[ ,.]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)\s*(k)?(?![\d%])`
+
+function toNumber(raw: string, thousands: string | undefined): number {
+  // Treat 3-digit groups separated by space, comma or dot as thousands
+  // ("30 000", "30,000", "20.000"); a trailing 1–2 digit group is decimals.
+  const match = raw.match(/^(\d{1,3}(?:[ ,.]\d{3})+)(?:[.,](\d{1,2}))?$/)
+  let value = match
+    ? parseFloat(match[1].replace(/[ ,.]/g, '') + (match[2] ? `.${match[2]}` : ''))
+    : parseFloat(raw.replace(',', '.'))
+  if (thousands) value *= 1000
+  return value
+}
+
+function detectCurrency(text: string, country?: string | null): string {
+  for (const [pattern, currency] of CURRENCY_MARKERS) {
+    if (pattern.test(text)) return currency
+  }
+  const local = (country && COUNTRY_CURRENCIES[country]) || 'GBP'
+  if (text.includes('$')) {
+    return DOLLAR_CURRENCIES.includes(local) ? local : 'USD'
+  }
+  return local
+}
+
+function detectPeriod(text: string): SalaryPeriod | null {
+  let best: { period: SalaryPeriod; index: number } | null = null
+  for (const [pattern, period] of PERIOD_MARKERS) {
+    const match = pattern.exec(text)
+    if (match && (!best || match.index < best.index)) {
+      best = { period, index: match.index }
+    }
+  }
+  return best?.period ?? null
+}
+
+// Fee splits and percentages are not salaries: "50-60%", "55:45 %", "60/40"
+const NOT_AMOUNTS = [
+  /\d+\s*:\s*\d+/g,
+  /\d+(?:\.\d+)?\s*%?\s*(?:-|–|—|to)\s*\d+(?:\.\d+)?\s*%/gi,
+  /\d+(?:\.\d+)?\s*%/g,
+  /\d+\s*\/\s*\d+(?!\s*(?:h|hr|hour|day|session|patient))/gi,
+]
+
+// Words before a single amount that make it a cap ("Up to £40k") or a floor
+// ("Min £40 hour"), and after it a floor ("70,000+", "26500 Min"). A "+"
+// followed by words is an extra ("£30,000 + bonus"), unless it's the period.
+const CAP_BEFORE = /\b(?:up\s+to|max(?:imum)?(?:\s+of)?)\s*[^\d\s]{0,4}\s*$/i
+const FLOOR_BEFORE = /\b(?:from|min(?:imum)?(?:\s+of)?|starting\s+(?:at|from))\s*[^\d\s]{0,4}\s*$/i
+const FLOOR_AFTER = /^\s*(?:\+(?!\s*(?!per\b|pa\b|p\.a\.)\w)|min(?:imum)?\b)/i
+
+// Parse free-text salary_range values such as "£30,000 - £45,000",
+// "$72K–$130K+", "£22/hour", "Up to £40k" or "€20.000 to €50.000". Returns
+// null when the text has no usable amount ("Negotiable", "60/40 split", "50%").
+export function parseSalaryRange(text: string | null | undefined, country?: string | null): Salary | null {
+  if (!text) return null
+
+  const cleaned = NOT_AMOUNTS.reduce((out, pattern) => out.replace(pattern, ' '), text)
+
+  const range = new RegExp(`${AMOUNT}\\s*(?:-|–|—|to)\\s*[^\\d\\s]{0,4}\\s*${AMOUNT}`, 'i').exec(cleaned)
+  const single = new RegExp(AMOUNT, 'i').exec(cleaned)
+  const match = range || single
+  if (!match) return null
+
+  const before = cleaned.slice(0, match.index)
+  const after = cleaned.slice(match.index + match[0].length)
+
+  let min: number | null
+  let max: number | null
+  if (range) {
+    // A trailing "+" on a range ("$120,000 - $160,000+") still caps at the upper bound
+    max = toNumber(range[3], range[4])
+    min = toNumber(range[1], range[2])
+    // "45-53000", "29 - 36K": a bare lower bound is in the upper bound's thousands
+    if (!range[2] && min < 1000 && max >= 1000 && min * 1000 <= max) min *= 1000
+  } else {
+    const amount = toNumber(match[1], match[2])
+    min = CAP_BEFORE.test(before) ? null : amount
+    max = min !== null && (FLOOR_BEFORE.test(before) || FLOOR_AFTER.test(after)) ? null : amount
+  }
+
+  const value = max ?? min ?? 0
+  if (!(value > 0) || (min !== null && max !== null && max < min)) return null
+
+  // Only look next to the amount: a period elsewhere in the text may belong
+  // to something else ("£29-£34K plus bonuses up to £2,500 per month")
+  let period = detectPeriod(after.split(/\d/)[0]) ?? detectPeriod(before.split(/\d/).pop()!)
+  if (!period && value >= 10000) period = 'year'
+  // "OTE £40" is a rate, not an annual figure
+  if (period === 'year' && value < 1000) period = null
+
+  return { min, max, currency: detectCurrency(cleaned, country), period }
+}
+
+type SalaryColumns = {
+  salary_min: number | null
+  salary_max: number | null
+  salary_currency: string | null
+  salary_period: SalaryPeriod | null
+  salary_range: string | null
+}
+
+export function jobSalary(job: SalaryColumns): Salary | null {
+  if (job.salary_min === null && job.salary_max === null) return null
+  return {
+    min: job.salary_min,
+    max: job.salary_max,
+    currency: job.salary_currency || 'GBP',
+    period: job.salary_period,
+  }
+}
+
+function formatAmount(value: number, currency: string): string {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(value) ? 0 : 2,
+  }).format(value)
+}
+
+export function formatSalary(salary: Salary): string {
+  const { min, max, currency, period } = salary
+  let amount: string
+  if (min !== null && max !== null && min !== max) {
+    amount = `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`
+  } else if (min !== null && max === null) {
+    amount = `From ${formatAmount(min, currency)}`
+  } else if (min === null && max !== null) {
+    amount = `Up to ${formatAmount(max, currency)}`
+  } else {
+    amount = formatAmount((min ?? max)!, currency)
+  }
+  return period ? `${amount} ${SALARY_PERIODS[period]}` : amount
+}
+
+// Display text for a job. salary_range is the employer's own wording: shown
+// as is when it states the same amounts, after the amounts when it only adds
+// terms ("+ super"), and left out when its amounts are out of date.
+export function jobSalaryText(job: SalaryColumns): string | null {
+  const salary = jobSalary(job)
+  if (!salary) return job.salary_range || null
+
+  const amounts = formatSalary(salary)
+  const terms = job.salary_range?.trim()
+  if (!terms || terms === amounts) return amounts
+  const stated = parseSalaryRange(terms)
+  if (!stated) return `${amounts} ${terms}`
+  return stated.min === salary.min && stated.max === salary.max ? terms : amounts
+}
+
+const SCHEMA_UNITS: Partial<Record<SalaryPeriod, string>> = {
+  hour: 'HOUR',
+  day: 'DAY',
+  month: 'MONTH',
+  year: 'YEAR',
+}
+
+// schema.org MonetaryAmount for JobPosting.baseSalary
+export function schemaOrgBaseSalary(job: SalaryColumns) {
+  const salary = jobSalary(job)
+  if (!salary) return null
+
+  const unitText = salary.period ? SCHEMA_UNITS[salary.period] : undefined
+  const value =
+    salary.min !== null && salary.max !== null && salary.min !== salary.max
+      ? { minValue: salary.min, maxValue: salary.max }
+      : salary.min !== null && salary.max === null
+      ? { minValue: salary.min }
+      : { value: salary.min ?? salary.max }
+
+  return {
+    '@type': 'MonetaryAmount',
+    currency: salary.currency,
+    value: {
+      '@type': 'QuantitativeValue',
+      ...value,
+      ...(unitText && { unitText }),
+    },
+  }
+}
+
+// Form state for the salary inputs on the post and edit job pages. `terms`
+// is free text for pay that isn't a fixed amount ("Self employed, 60% fee
+// split"); it is what a job shows when both amounts are blank.
+export type SalaryInput = {
+  min: string
+  max: string
+  currency: string
+  period: SalaryPeriod | ''
+  terms: string
+}
+
+export function emptySalaryInput(country?: string | null): SalaryInput {
+  return { min: '', max: '', currency: (country && COUNTRY_CURRENCIES[country]) || 'GBP', period: 'year', terms: '' }
+}
+
+// Legacy jobs with only free-text salary_range get it parsed into the
+// amounts where possible. The text itself is kept as the pay terms unless
+// it is just the formatted amounts, so clearing the amounts never loses it.
+export function salaryInputFromJob(job: SalaryColumns & { location_country?: string | null }): SalaryInput {
+  const salary = jobSalary(job) ?? parseSalaryRange(job.salary_range, job.location_country)
+  const terms = job.salary_range && (!salary || job.salary_range !== formatSalary(salary)) ? job.salary_range : ''
+  if (!salary) return { ...emptySalaryInput(job.location_country), terms }
+  return {
+    min: salary.min !== null ? String(salary.min) : '',
+    max: salary.max !== null ? String(salary.max) : '',
+    currency: salary.currency,
+    period: salary.period ?? '',
+    terms,
+  }
+}
+
+// Convert form input into job columns. salary_range holds the pay terms, or
+// the formatted amounts as readable text when there are none. Throws on an
+// inverted range.
+export function salaryInputToColumns(input: SalaryInput): SalaryColumns {
+  const min = input.min.trim() ? Number(input.min) : null
+  const max = input.max.trim() ? Number(input.max) : null
+
+  if ((min !== null && !(min > 0)) || (max !== null && !(max > 0))) {
+    throw new Error('Salary amounts must be positive numbers')
+  }
+  if (min !== null && max !== null && max < min) {
+    throw new Error('Maximum salary must be at least the minimum salary')
+  }
+  const terms = input.terms.trim() || null
+  if (min === null && max === null) {
+    return { salary_min: null, salary_max: null, salary_currency: null, salary_period: null, salary_range: terms }
+  }
+
+  const period = input.period || null
+  return {
+    salary_min: min,
+    salary_max: max,
+    salary_currency: input.currency,
+    salary_period: period,
+    salary_range: terms ?? formatSalary({ min, max, currency: input.currency, period }),
+  }
+}
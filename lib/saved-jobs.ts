@@ -0,0 +1,33 @@
+// Saved jobs for the candidate dashboard and the /saved-jobs page
+
+import { supabase } from './supabase'
+import type { Job, SavedJob } from './supabase'
+
+// A saved job stays listed after it closes, so candidates can see what happened to it
+export function isJobOpen(job: Job): boolean {
+  if (job.status !== 'active') return false
+  return !job.expiry_date || new Date(job.expiry_date) > new Date()
+}
+
+// Saved jobs, newest first, with the ids of jobs the candidate already applied to
+export async function fetchSavedJobs(candidateId: string): Promise<{
+  savedJobs: SavedJob[]
+  appliedJobIds: Set<string>
+}> {
+  const [{ data: saved }, { data: applications }] = await Promise.all([
+    supabase
+      .from('saved_jobs')
+      .select('*, job:jobs(*, employer:profiles!employer_id(company_name))')
+      .eq('candidate_id', candidateId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('applications')
+      .select('job_id')
+      .eq('candidate_id', candidateId),
+  ])
+
+  return {
+    savedJobs: saved || [],
+    appliedJobIds: new Set((applications || []).map(a => a.job_id as string)),
+  }
+}
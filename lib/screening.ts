@@ -0,0 +1,119 @@
+// Employer-defined screening questions on job posts, and candidates' answers
+
+export type ScreeningQuestionType = 'yes_no' | 'short_text' | 'number' | 'multiple_choice'
+
+export type ScreeningQuestion = {
+  id: string
+  type: ScreeningQuestionType
+  label: string
+  required: boolean
+  // multiple_choice only
+  options?: string[]
+}
+
+// Stored with the application. The question text is copied in so answers
+// still make sense after the employer edits or removes the question.
+export type ScreeningAnswer = {
+  question_id: string
+  question: string
+  answer: string
+}
+
+// Answers while the candidate fills in the form, keyed by question id
+export type ScreeningAnswerInput = Record<string, string>
+
+export const SCREENING_QUESTION_TYPES: Record<ScreeningQuestionType, string> = {
+  yes_no: 'Yes / No',
+  short_text: 'Short text',
+  number: 'Number',
+  multiple_choice: 'Multiple choice',
+}
+
+export const MAX_SCREENING_QUESTIONS = 10
+export const MAX_ANSWER_LENGTH = 500
+
+// One-click questions for what employers most often ask applicants
+export const SUGGESTED_SCREENING_QUESTIONS: Omit<ScreeningQuestion, 'id'>[] = [
+  { type: 'yes_no', label: 'Are you registered with the GOsC?', required: true },
+  { type: 'yes_no', label: 'Do you have your own professional indemnity insurance?', required: true },
+  { type: 'short_text', label: 'When could you start?', required: true },
+]
+
+export function newScreeningQuestion(question: Partial<Omit<ScreeningQuestion, 'id'>> = {}): ScreeningQuestion {
+  return {
+    id: crypto.randomUUID(),
+    type: 'yes_no',
+    label: '',
+    required: true,
+    ...question,
+  }
+}
+
+// Trims the employer's input and drops empty questions and options. Returns
+// an error message for a question that can't be answered as written.
+export function cleanScreeningQuestions(
+  questions: ScreeningQuestion[]
+): { questions: ScreeningQuestion[]; error: string | null } {
+  const cleaned: ScreeningQuestion[] = []
+
+  for (const question of questions) {
+    const label = question.label.trim()
+    if (!label) continue
+
+    if (question.type === 'multiple_choice') {
+      const options = [...new Set((question.options || []).map(o => o.trim()).filter(Boolean))]
+      if (options.length < 2) {
+        return { questions, error: `“${label}” needs at least two choices` }
+      }
+      cleaned.push({ id: question.id, type: question.type, label, required: question.required, options })
+    } else {
+      cleaned.push({ id: question.id, type: question.type, label, required: question.required })
+    }
+  }
+
+  if (cleaned.length > MAX_SCREENING_QUESTIONS) {
+    return { questions, error: `Add at most ${MAX_SCREENING_QUESTIONS} screening questions` }
+  }
+  return { questions: cleaned, error: null }
+}
+
+// Error message for the first missing or invalid answer, or null
+export function screeningAnswersError(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswerInput
+): string | null {
+  for (const question of questions) {
+    const answer = (answers[question.id] || '').trim()
+
+    if (!answer) {
+      if (question.required) return `Please answer “${question.label}”`
+      continue
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      return `Your answer to “${question.label}” is too long`
+    }
+    if (question.type === 'number' && !Number.isFinite(Number(answer))) {
+      return `Your answer to “${question.label}” must be a number`
+    }
+    if (question.type === 'yes_no' && answer !== 'Yes' && answer !== 'No') {
+      return `Please answer “${question.label}” with yes or no`
+    }
+    if (question.type === 'multiple_choice' && !question.options?.includes(answer)) {
+      return `Please choose one of the options for “${question.label}”`
+    }
+  }
+  return null
+}
+
+export function screeningAnswersToColumn(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswerInput
+): ScreeningAnswer[] {
+  return questions
+    .map(question => ({
+      question_id: question.id,
+      question: question.label,
+      answer: (answers[question.id] || '').trim(),
+    }))
+    .filter(answer => answer.answer)
+}
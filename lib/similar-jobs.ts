@@ -0,0 +1,140 @@
+// "Similar Jobs" recommendations for the job detail page
+
+import { unstable_cache } from 'next/cache'
+import { supabase } from './supabase'
+import type { Job } from './supabase'
+
+export const SIMILAR_JOBS_LIMIT = 4
+
+// Recent active jobs considered per recommendation; plenty for a niche board
+const CANDIDATE_POOL = 200
+
+// How much each kind of match adds to a candidate's score
+const WEIGHTS = {
+  category: 3,
+  country: 2,
+  city: 2,
+  jobType: 1,
+  title: 4,
+  description: 2,
+}
+
+const STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'our', 'you', 'your', 'are', 'will', 'have', 'this', 'that',
+  'from', 'who', 'all', 'can', 'per', 'join', 'team', 'role', 'job', 'work', 'working',
+  'osteopath', 'osteopaths', 'osteopathic', 'osteopathy', 'clinic', 'practice',
+])
+
+type JobLike = Pick<Job, 'id' | 'title' | 'description' | 'category' | 'job_type' | 'location_country' | 'location_city'>
+
+export type SimilarJob = Pick<
+  Job,
+  'id' | 'title' | 'job_type' | 'category' | 'location_country' | 'location_city' |
+  'salary_range' | 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_period'
+> & {
+  company_name: string | null
+}
+
+function tokens(text: string | null | undefined): Set<string> {
+  return new Set(
+    (text || '')
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  )
+}
+
+// Share of words the two sets have in common (Jaccard index, 0–1)
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const word of a) if (b.has(word)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+function sameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  return Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase())
+}
+
+export function similarityScore(job: JobLike, candidate: JobLike): number {
+  let score = 0
+  if (sameText(job.category, candidate.category)) score += WEIGHTS.category
+  if (sameText(job.location_country, candidate.location_country)) {
+    score += WEIGHTS.country
+    if (sameText(job.location_city, candidate.location_city)) score += WEIGHTS.city
+  }
+  if (sameText(job.job_type, candidate.job_type)) score += WEIGHTS.jobType
+  score += WEIGHTS.title * overlap(tokens(job.title), tokens(candidate.title))
+  score += WEIGHTS.description * overlap(tokens(job.description), tokens(candidate.description))
+  return score
+}
+
+// Scored matches, best first. A few spares are kept so jobs that have closed
+// since can be dropped without leaving the section short.
+async function findSimilarJobIds(jobId: string): Promise<string[]> {
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('id, title, description, category, job_type, location_country, location_city')
+    .eq('id', jobId)
+    .single()
+
+  if (!job) return []
+
+  const { data: candidates } = await supabase
+    .from('jobs')
+    .select('id, title, description, category, job_type, location_country, location_city')
+    .eq('status', 'active')
+    .neq('id', jobId)
+    .order('posted_date', { ascending: false })
+    .limit(CANDIDATE_POOL)
+
+  return (candidates || [])
+    .map(candidate => ({ id: candidate.id as string, score: similarityScore(job, candidate) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SIMILAR_JOBS_LIMIT * 2)
+    .map(({ id }) => id)
+}
+
+// The scoring is cached per job for an hour; the jobs themselves are loaded
+// fresh, so one that is closed, rejected or sent back to review disappears
+// straight away
+export async function getSimilarJobs(jobId: string): Promise<SimilarJob[]> {
+  const ids = await unstable_cache(findSimilarJobIds, ['similar-jobs', jobId], {
+    revalidate: 3600,
+    tags: ['similar-jobs'],
+  })(jobId)
+
+  if (ids.length === 0) return []
+
+  const { data: jobs } = await supabase
+    .from('jobs')
+    .select(`
+      id, title, job_type, category, location_country, location_city,
+      salary_range, salary_min, salary_max, salary_currency, salary_period,
+      employer:profiles!employer_id(company_name)
+    `)
+    .in('id', ids)
+    .eq('status', 'active')
+
+  return (jobs || [])
+    .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+    .slice(0, SIMILAR_JOBS_LIMIT)
+    .map(job => {
+      const company = Array.isArray(job.employer) ? job.employer[0] : job.employer
+      return {
+        id: job.id,
+        title: job.title,
+        job_type: job.job_type,
+        category: job.category,
+        location_country: job.location_country,
+        location_city: job.location_city,
+        salary_range: job.salary_range,
+        salary_min: job.salary_min,
+        salary_max: job.salary_max,
+        salary_currency: job.salary_currency,
+        salary_period: job.salary_period,
+        company_name: company?.company_name ?? null,
+      }
+    })
+}
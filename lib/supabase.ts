@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { ScreeningAnswer, ScreeningQuestion } from './screening'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -21,6 +22,7 @@ export type Profile = {
   qualifications: string | null
   experience_years: number | null
   specialties: string[] | null
+  email_application_updates: boolean
   company_name: string | null
   company_logo_url: string | null
   company_description: string | null
@@ -41,7 +43,16 @@ export type Job = {
   location_country: string
   location_city: string | null
   location_address: string | null
+  latitude: number | null
+  longitude: number | null
   salary_range: string | null
+  salary_min: number | null
+  salary_max: number | null
+  salary_currency: string | null
+  salary_period: 'hour' | 'day' | 'session' | 'month' | 'year' | null
+  featured_image: string | null
+  screening_questions: ScreeningQuestion[]
+  activated_at: string | null
   status: 'active' | 'closed' | 'draft' | 'pending' | 'rejected'
   featured: boolean
   view_count: number
@@ -61,6 +72,22 @@ export type SavedJob = {
   job?: Job
 }
 
+export type JobAlert = {
+  id: string
+  candidate_id: string
+  name: string
+  search: string | null
+  location: string | null
+  job_types: string[]
+  specialty: string | null
+  frequency: 'daily' | 'weekly'
+  // Last digest run for this alert, whether or not it found jobs to email
+  last_sent_at: string | null
+  created_at: string
+}
+
+export type ApplicationStatus = 'pending' | 'reviewed' | 'shortlisted' | 'rejected' | 'accepted' | 'withdrawn'
+
 export type Application = {
   id: string
   job_id: string
@@ -70,10 +97,21 @@ export type Application = {
   applicant_phone: string | null
   cover_letter: string | null
   cv_url: string | null
-  status: 'pending' | 'reviewed' | 'shortlisted' | 'rejected' | 'accepted'
-  employer_notes: string | null
+  screening_answers: ScreeningAnswer[]
+  status: ApplicationStatus
+  // Private to the employer: not selectable by clients, see employer_application_notes()
+  employer_notes?: string | null
   applied_at: string
   updated_at: string
   job?: Job
   candidate?: Profile
+  status_history?: ApplicationStatusChange[]
+}
+
+export type ApplicationStatusChange = {
+  id: string
+  application_id: string
+  from_status: ApplicationStatus | null
+  to_status: ApplicationStatus
+  changed_at: string
 }
\ No newline at end of file
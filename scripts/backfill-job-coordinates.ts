@@ -0,0 +1,90 @@
+/**
+ * Backfill latitude/longitude for existing jobs from their city and country,
+ * using the bundled gazetteer in lib/data/gazetteer.json.
+ *
+ * Uses createGazetteerGeocoder() from lib/geocoding.ts, so jobs are placed
+ * exactly as the post and edit forms place them when offline. Jobs whose city
+ * isn't in the gazetteer are left without coordinates and listed at the end,
+ * so the gazetteer can be extended.
+ *
+ * HOW TO RUN:
+ *   npm run backfill:coordinates              # write changes
+ *   npm run backfill:coordinates -- --dry-run # only print what would change
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { createGazetteerGeocoder } from '../lib/geocoding'
+import type { Job } from '../lib/supabase'
+
+config({ path: resolve(__dirname, '..', '.env.local') })
+
+const DRY_RUN = process.argv.includes('--dry-run')
+
+type LocatedJob = Pick<Job, 'id' | 'title' | 'location_city' | 'location_country'>
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id, title, location_city, location_country')
+    .not('location_city', 'is', null)
+    .is('latitude', null)
+
+  if (error) {
+    console.error('❌ Could not load jobs:', error.message)
+    process.exit(1)
+  }
+
+  const jobs = data as LocatedJob[]
+  console.log(`Found ${jobs.length} jobs without coordinates${DRY_RUN ? ' (dry run)' : ''}\n`)
+
+  const geocoder = createGazetteerGeocoder()
+  let updated = 0
+  const unmatched = new Set<string>()
+
+  for (const job of jobs) {
+    const match = await geocoder.geocode({ city: job.location_city, country: job.location_country })
+
+    if (!match) {
+      unmatched.add(`${job.location_city} (${job.location_country})`)
+      continue
+    }
+
+    const { latitude, longitude } = match
+
+    if (DRY_RUN) {
+      console.log(`🔎 ${job.title} — "${job.location_city}" → (${latitude}, ${longitude})`)
+      updated++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update({ latitude, longitude })
+      .eq('id', job.id)
+
+    if (updateError) {
+      console.log(`❌ ${job.title} — update failed: ${updateError.message}`)
+    } else {
+      updated++
+      console.log(`✅ ${job.title} — "${job.location_city}" → (${latitude}, ${longitude})`)
+    }
+  }
+
+  console.log(`\nDone! ${updated} ${DRY_RUN ? 'would be updated' : 'updated'}, ${unmatched.size} unknown places:`)
+  for (const place of unmatched) console.log(`   ${place}`)
+}
+
+main().catch(console.error)
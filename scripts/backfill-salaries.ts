@@ -0,0 +1,117 @@
+/**
+ * Backfill structured salary columns (salary_min, salary_max, salary_currency,
+ * salary_period) from the free-text salary_range of existing jobs.
+ *
+ * Uses parseSalaryRange() from lib/salary.ts, so the backfill and the edit
+ * form always read salary_range the same way. Jobs whose salary_range has no
+ * usable amount ("Negotiable", "60/40 split") are left untouched.
+ *
+ * With --reparse, jobs backfilled by an earlier run are parsed again and
+ * corrected. Salaries entered on the form without pay terms are never
+ * changed, and amounts are never cleared: text without an amount may be pay
+ * terms the employer added next to them ("+ super"), so those jobs are only
+ * listed.
+ *
+ * HOW TO RUN:
+ *   npm run backfill:salaries                        # write changes
+ *   npm run backfill:salaries -- --dry-run           # only print what would change
+ *   npm run backfill:salaries -- --reparse --dry-run # preview corrections
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { resolve } from 'path'
+import { formatSalary, jobSalary, parseSalaryRange } from '../lib/salary'
+import type { Job } from '../lib/supabase'
+
+config({ path: resolve(__dirname, '..', '.env.local') })
+
+const DRY_RUN = process.argv.includes('--dry-run')
+const REPARSE = process.argv.includes('--reparse')
+
+type SalaryJob = Pick<
+  Job,
+  'id' | 'title' | 'location_country' | 'salary_range' | 'salary_min' | 'salary_max' | 'salary_currency' | 'salary_period'
+>
+
+async function main() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  let query = supabase
+    .from('jobs')
+    .select('id, title, location_country, salary_range, salary_min, salary_max, salary_currency, salary_period')
+    .not('salary_range', 'is', null)
+  if (!REPARSE) query = query.is('salary_min', null).is('salary_max', null)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('❌ Could not load jobs:', error.message)
+    process.exit(1)
+  }
+
+  // The form writes the formatted amounts to salary_range, so a match means
+  // the employer entered this salary themselves
+  const jobs = (data as SalaryJob[]).filter(job => {
+    const current = jobSalary(job)
+    return !current || job.salary_range !== formatSalary(current)
+  })
+
+  console.log(`Found ${jobs.length} jobs with a free-text salary${DRY_RUN ? ' (dry run)' : ''}\n`)
+
+  let updated = 0
+  let skipped = 0
+
+  for (const job of jobs) {
+    const salary = parseSalaryRange(job.salary_range, job.location_country)
+    const current = jobSalary(job)
+
+    if (!salary) {
+      skipped++
+      console.log(`⏭  ${job.title} — "${job.salary_range}" (no amount${current ? `, keeps ${formatSalary(current)}` : ''})`)
+      continue
+    }
+
+    const summary = formatSalary(salary)
+    if (current && formatSalary(current) === summary) {
+      skipped++
+      continue
+    }
+
+    if (DRY_RUN) {
+      console.log(`🔎 ${job.title} — "${job.salary_range}" → ${summary}`)
+      updated++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('jobs')
+      .update({
+        salary_min: salary.min,
+        salary_max: salary.max,
+        salary_currency: salary.currency,
+        salary_period: salary.period,
+      })
+      .eq('id', job.id)
+
+    if (updateError) {
+      console.log(`❌ ${job.title} — update failed: ${updateError.message}`)
+    } else {
+      updated++
+      console.log(`✅ ${job.title} — "${job.salary_range}" → ${summary}`)
+    }
+  }
+
+  console.log(`\nDone! ${updated} ${DRY_RUN ? 'would be updated' : 'updated'}, ${skipped} skipped.`)
+}
+
+main().catch(console.error)
@@ -0,0 +1,105 @@
+-- Ranked full-text search over jobs.
+--
+-- search_vector is kept up to date by triggers rather than a generated column
+-- because it includes the employer's company_name from profiles.
+-- Weights: A = title, B = category + company, C = city + country,
+-- D = excerpt + description.
+
+alter table public.jobs add column if not exists search_vector tsvector;
+
+create or replace function public.build_job_search_vector(
+  p_title text,
+  p_description text,
+  p_excerpt text,
+  p_category text,
+  p_city text,
+  p_country text,
+  p_company_name text
+) returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(p_category, '') || ' ' || coalesce(p_company_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_city, '') || ' ' || coalesce(p_country, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(p_excerpt, '') || ' ' || coalesce(p_description, '')), 'D')
+$$;
+
+create or replace function public.jobs_search_vector_trigger()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.build_job_search_vector(
+    new.title,
+    new.description,
+    new.excerpt,
+    new.category,
+    new.location_city,
+    new.location_country,
+    (select company_name from public.profiles where id = new.employer_id)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_search_vector_update on public.jobs;
+create trigger jobs_search_vector_update
+  before insert or update of title, description, excerpt, category, location_city, location_country, employer_id
+  on public.jobs
+  for each row
+  execute function public.jobs_search_vector_trigger();
+
+-- Re-index an employer's jobs when their company name changes
+create or replace function public.profiles_company_name_search_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.jobs
+  set search_vector = public.build_job_search_vector(
+    title, description, excerpt, category, location_city, location_country, new.company_name
+  )
+  where employer_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_company_name_search_update on public.profiles;
+create trigger profiles_company_name_search_update
+  after update of company_name on public.profiles
+  for each row
+  when (old.company_name is distinct from new.company_name)
+  execute function public.profiles_company_name_search_trigger();
+
+-- Backfill existing jobs
+update public.jobs j
+set search_vector = public.build_job_search_vector(
+  j.title, j.description, j.excerpt, j.category, j.location_city, j.location_country, p.company_name
+)
+from public.profiles p
+where p.id = j.employer_id;
+
+update public.jobs
+set search_vector = public.build_job_search_vector(
+  title, description, excerpt, category, location_city, location_country, null
+)
+where search_vector is null;
+
+create index if not exists jobs_search_vector_idx on public.jobs using gin (search_vector);
+
+-- Jobs matching a free-text query, best matches first.
+-- websearch syntax: words are ANDed, "quoted phrases" and -exclusions work.
+create or replace function public.search_jobs(search_query text)
+returns setof public.jobs
+language sql
+stable
+as $$
+  select j.*
+  from public.jobs j, websearch_to_tsquery('english', search_query) q
+  where j.search_vector @@ q
+  order by ts_rank_cd(j.search_vector, q) desc, j.posted_date desc
+$$;
@@ -0,0 +1,78 @@
+-- Structured salaries alongside the legacy free-text salary_range.
+-- Existing rows are backfilled by scripts/backfill-salaries.ts, which parses
+-- salary_range with parseSalaryRange() from lib/salary.ts.
+
+alter table public.jobs
+  add column if not exists salary_min numeric(12, 2),
+  add column if not exists salary_max numeric(12, 2),
+  add column if not exists salary_currency char(3),
+  add column if not exists salary_period text;
+
+alter table public.jobs drop constraint if exists jobs_salary_period_check;
+alter table public.jobs
+  add constraint jobs_salary_period_check
+  check (salary_period in ('hour', 'day', 'session', 'month', 'year'));
+
+alter table public.jobs drop constraint if exists jobs_salary_range_check;
+alter table public.jobs
+  add constraint jobs_salary_range_check
+  check (salary_min is null or salary_max is null or salary_min <= salary_max);
+
+-- "Salary listed" now means a structured salary is present
+create or replace function public.job_facets(
+  search_query text default null,
+  filter_country text default null,
+  filter_city text default null,
+  filter_types text[] default null,
+  filter_specialty text default null,
+  posted_since timestamptz default null,
+  salary_only boolean default false
+) returns jsonb
+language sql
+stable
+as $$
+  with base as (
+    select j.location_country, j.job_type, j.category
+    from public.jobs j
+    where j.status = 'active'
+      and (search_query is null or j.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (filter_city is null or strpos(lower(coalesce(j.location_city, '')), lower(filter_city)) > 0)
+      and (posted_since is null or j.posted_date >= posted_since)
+      and (not salary_only or j.salary_min is not null or j.salary_max is not null)
+  )
+  select jsonb_build_object(
+    'location', coalesce((
+      select jsonb_object_agg(location_country, n)
+      from (
+        select location_country, count(*) as n
+        from base
+        where location_country is not null
+          and (filter_types is null or job_type = any(filter_types))
+          and (filter_specialty is null or category = filter_specialty)
+        group by location_country
+      ) c
+    ), '{}'::jsonb),
+    'type', coalesce((
+      select jsonb_object_agg(job_type, n)
+      from (
+        select job_type, count(*) as n
+        from base
+        where job_type is not null
+          and (filter_country is null or location_country = filter_country)
+          and (filter_specialty is null or category = filter_specialty)
+        group by job_type
+      ) t
+    ), '{}'::jsonb),
+    'specialty', coalesce((
+      select jsonb_object_agg(category, n)
+      from (
+        select category, count(*) as n
+        from base
+        where category is not null
+          and (filter_country is null or location_country = filter_country)
+          and (filter_types is null or job_type = any(filter_types))
+        group by category
+      ) s
+    ), '{}'::jsonb)
+  )
+$$;
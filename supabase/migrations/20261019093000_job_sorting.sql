@@ -0,0 +1,55 @@
+-- Sorting support for /jobs.
+--
+-- salary_sort_value puts structured salaries on a rough common scale (annual,
+-- in GBP) so "highest salary" can compare a £45k salary with a €250 day rate.
+-- The exchange rates are deliberately approximate: they only decide ordering
+-- and are never shown to anyone. A salary with no period or an unlisted
+-- currency can't be placed on that scale, so it gets no sort value and sorts
+-- with the jobs that list no salary.
+
+alter table public.jobs
+  add column if not exists salary_sort_value numeric generated always as (
+    coalesce(salary_max, salary_min)
+    * case salary_period
+        when 'hour' then 1800
+        when 'day' then 225
+        when 'session' then 1800
+        when 'month' then 12
+        when 'year' then 1
+      end
+    * case salary_currency
+        when 'GBP' then 1
+        when 'EUR' then 0.85
+        when 'USD' then 0.75
+        when 'AUD' then 0.49
+        when 'CAD' then 0.55
+        when 'NZD' then 0.45
+        when 'CHF' then 0.9
+        when 'SGD' then 0.58
+        when 'HKD' then 0.096
+        when 'AED' then 0.2
+        when 'BBD' then 0.37
+        when 'CNY' then 0.1
+        when 'ISK' then 0.0055
+        when 'IDR' then 0.000046
+        when 'OMR' then 1.95
+        when 'XOF' then 0.0013
+        when 'SCR' then 0.052
+        when 'THB' then 0.022
+      end
+  ) stored;
+
+create index if not exists jobs_salary_sort_value_idx on public.jobs (salary_sort_value desc nulls last);
+create index if not exists jobs_expiry_date_idx on public.jobs (expiry_date);
+
+-- Featured jobs stay pinned above everything else, including search relevance
+create or replace function public.search_jobs(search_query text)
+returns setof public.jobs
+language sql
+stable
+as $$
+  select j.*
+  from public.jobs j, websearch_to_tsquery('english', search_query) q
+  where j.search_vector @@ q
+  order by j.featured desc, ts_rank_cd(j.search_vector, q) desc, j.posted_date desc
+$$;
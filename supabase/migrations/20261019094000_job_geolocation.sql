@@ -0,0 +1,150 @@
+-- Geocoded job locations and radius search.
+--
+-- latitude/longitude are filled in by the post and edit job forms (through
+-- /api/geocode) and by scripts/backfill-job-coordinates.ts for older jobs.
+-- Jobs whose city could not be geocoded keep null coordinates and simply
+-- never match a radius search.
+
+alter table public.jobs
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision;
+
+alter table public.jobs
+  drop constraint if exists jobs_coordinates_check;
+alter table public.jobs
+  add constraint jobs_coordinates_check check (
+    (latitude is null) = (longitude is null)
+    and (latitude is null or latitude between -90 and 90)
+    and (longitude is null or longitude between -180 and 180)
+  );
+
+create index if not exists jobs_coordinates_idx on public.jobs (latitude, longitude)
+  where latitude is not null;
+
+-- Great-circle distance in kilometres (haversine); mirrored by distanceKm()
+-- in lib/geocoding.ts for the distances shown on job cards
+create or replace function public.distance_km(
+  lat1 double precision, lng1 double precision,
+  lat2 double precision, lng2 double precision
+) returns double precision
+language sql
+immutable
+as $$
+  select 6371 * 2 * asin(least(1, sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2)
+    + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  )))
+$$;
+
+-- search_jobs() now also handles radius search, with or without a search
+-- term. With near_* set only geocoded jobs within radius_km are returned, and
+-- sort_by_distance orders them closest first (after featured jobs).
+drop function if exists public.search_jobs(text);
+
+create or replace function public.search_jobs(
+  search_query text default null,
+  near_lat double precision default null,
+  near_lng double precision default null,
+  radius_km double precision default null,
+  sort_by_distance boolean default false
+)
+returns setof public.jobs
+language sql
+stable
+as $$
+  select j.*
+  from public.jobs j
+  left join lateral (
+    select websearch_to_tsquery('english', search_query) as q
+    where search_query is not null
+  ) s on true
+  where (search_query is null or j.search_vector @@ s.q)
+    and (
+      near_lat is null or near_lng is null
+      or (
+        j.latitude is not null
+        -- Cheap bounding box first so the coordinates index can be used
+        and j.latitude between near_lat - coalesce(radius_km, 25) / 111.0
+                           and near_lat + coalesce(radius_km, 25) / 111.0
+        and public.distance_km(near_lat, near_lng, j.latitude, j.longitude) <= coalesce(radius_km, 25)
+      )
+    )
+  order by
+    j.featured desc,
+    case when sort_by_distance and near_lat is not null and near_lng is not null
+      then public.distance_km(near_lat, near_lng, j.latitude, j.longitude)
+    end asc nulls last,
+    case when search_query is not null then ts_rank_cd(j.search_vector, s.q) end desc nulls last,
+    j.posted_date desc
+$$;
+
+-- Facet counts follow the radius filter too
+drop function if exists public.job_facets(text, text, text, text[], text, timestamptz, boolean);
+
+create or replace function public.job_facets(
+  search_query text default null,
+  filter_country text default null,
+  filter_city text default null,
+  filter_types text[] default null,
+  filter_specialty text default null,
+  posted_since timestamptz default null,
+  salary_only boolean default false,
+  near_lat double precision default null,
+  near_lng double precision default null,
+  radius_km double precision default null
+) returns jsonb
+language sql
+stable
+as $$
+  with base as (
+    select j.location_country, j.job_type, j.category
+    from public.jobs j
+    where j.status = 'active'
+      and (search_query is null or j.search_vector @@ websearch_to_tsquery('english', search_query))
+      and (filter_city is null or strpos(lower(coalesce(j.location_city, '')), lower(filter_city)) > 0)
+      and (posted_since is null or j.posted_date >= posted_since)
+      and (not salary_only or j.salary_min is not null or j.salary_max is not null)
+      and (
+        near_lat is null or near_lng is null
+        or (
+          j.latitude is not null
+          and public.distance_km(near_lat, near_lng, j.latitude, j.longitude) <= coalesce(radius_km, 25)
+        )
+      )
+  )
+  select jsonb_build_object(
+    'location', coalesce((
+      select jsonb_object_agg(location_country, n)
+      from (
+        select location_country, count(*) as n
+        from base
+        where location_country is not null
+          and (filter_types is null or job_type = any(filter_types))
+          and (filter_specialty is null or category = filter_specialty)
+        group by location_country
+      ) c
+    ), '{}'::jsonb),
+    'type', coalesce((
+      select jsonb_object_agg(job_type, n)
+      from (
+        select job_type, count(*) as n
+        from base
+        where job_type is not null
+          and (filter_country is null or location_country = filter_country)
+          and (filter_specialty is null or category = filter_specialty)
+        group by job_type
+      ) t
+    ), '{}'::jsonb),
+    'specialty', coalesce((
+      select jsonb_object_agg(category, n)
+      from (
+        select category, count(*) as n
+        from base
+        where category is not null
+          and (filter_country is null or location_country = filter_country)
+          and (filter_types is null or job_type = any(filter_types))
+        group by category
+      ) s
+    ), '{}'::jsonb)
+  )
+$$;
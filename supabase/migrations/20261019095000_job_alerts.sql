@@ -0,0 +1,57 @@
+-- Saved searches with email job alerts.
+--
+-- A candidate saves a /jobs filter set as a named alert. The job-alerts cron
+-- route emails a digest of jobs that went live since the alert was last sent.
+-- "Went live" is tracked by jobs.activated_at rather than posted_date, so a
+-- job that sat in review before being approved still reaches alerts.
+
+alter table public.jobs
+  add column if not exists activated_at timestamptz;
+
+update public.jobs
+set activated_at = coalesce(posted_date, created_at)
+where status = 'active' and activated_at is null;
+
+create or replace function public.jobs_set_activated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'active' and (tg_op = 'INSERT' or old.status is distinct from 'active') then
+    new.activated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists jobs_activated_at_trigger on public.jobs;
+create trigger jobs_activated_at_trigger
+  before insert or update of status on public.jobs
+  for each row execute function public.jobs_set_activated_at();
+
+create index if not exists jobs_activated_at_idx on public.jobs (activated_at desc)
+  where status = 'active';
+
+create table if not exists public.job_alerts (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  search text,
+  location text,
+  job_types text[] not null default '{}',
+  specialty text,
+  frequency text not null default 'daily' check (frequency in ('daily', 'weekly')),
+  last_sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_alerts_candidate_id_idx on public.job_alerts (candidate_id);
+
+alter table public.job_alerts enable row level security;
+
+drop policy if exists "Candidates manage their own job alerts" on public.job_alerts;
+create policy "Candidates manage their own job alerts"
+  on public.job_alerts
+  for all
+  using (auth.uid() = candidate_id)
+  with check (auth.uid() = candidate_id);
@@ -0,0 +1,25 @@
+-- One application per candidate per job.
+--
+-- The apply form used to insert a new row on every submit, so some candidates
+-- have applied to the same job more than once. Keep one row per pair — the
+-- one the employer has acted on if any, otherwise the most recent — and let
+-- the unique constraint reject any further duplicates.
+
+delete from public.applications a
+using (
+  select id,
+    row_number() over (
+      partition by job_id, candidate_id
+      order by (status <> 'pending') desc, updated_at desc, applied_at desc
+    ) as position
+  from public.applications
+  where candidate_id is not null
+) ranked
+where a.id = ranked.id
+  and ranked.position > 1;
+
+alter table public.applications
+  drop constraint if exists applications_job_id_candidate_id_key;
+
+alter table public.applications
+  add constraint applications_job_id_candidate_id_key unique (job_id, candidate_id);
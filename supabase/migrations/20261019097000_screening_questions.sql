@@ -0,0 +1,27 @@
+-- Employer-defined screening questions.
+--
+-- jobs.screening_questions is the list the employer set up on the job post:
+--   [{ "id", "type": yes_no|short_text|number|multiple_choice, "label", "required", "options"? }]
+-- applications.screening_answers holds the candidate's answers, with the
+-- question text copied in so they stay readable if the job is edited later:
+--   [{ "question_id", "question", "answer" }]
+-- The shapes are validated in lib/screening.ts; the database only checks
+-- that both are arrays.
+
+alter table public.jobs
+  add column if not exists screening_questions jsonb not null default '[]'::jsonb;
+
+alter table public.jobs
+  drop constraint if exists jobs_screening_questions_is_array;
+alter table public.jobs
+  add constraint jobs_screening_questions_is_array
+  check (jsonb_typeof(screening_questions) = 'array');
+
+alter table public.applications
+  add column if not exists screening_answers jsonb not null default '[]'::jsonb;
+
+alter table public.applications
+  drop constraint if exists applications_screening_answers_is_array;
+alter table public.applications
+  add constraint applications_screening_answers_is_array
+  check (jsonb_typeof(screening_answers) = 'array');
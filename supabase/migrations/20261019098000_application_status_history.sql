@@ -0,0 +1,89 @@
+-- Application status pipeline.
+--
+-- Employers move applications through pending → reviewed → shortlisted →
+-- accepted / rejected (app/api/applications/[id]/status). Every status an
+-- application passes through is recorded in application_status_history by a
+-- trigger, and both the candidate and the employer can read that history.
+--
+-- employer_notes is the employer's private note on an application. Row level
+-- security can't hide a single column, so clients lose SELECT on it: the
+-- employer reads notes through employer_application_notes() and writes them
+-- through the status route. New applications columns must be added to the
+-- grant below.
+
+create table if not exists public.application_status_history (
+  id uuid primary key default gen_random_uuid(),
+  application_id uuid not null references public.applications(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists application_status_history_application_id_idx
+  on public.application_status_history (application_id, changed_at);
+
+alter table public.application_status_history enable row level security;
+
+drop policy if exists "Candidates and employers read application history" on public.application_status_history;
+create policy "Candidates and employers read application history"
+  on public.application_status_history
+  for select
+  using (
+    exists (
+      select 1
+      from public.applications a
+      join public.jobs j on j.id = a.job_id
+      where a.id = application_id
+        and (a.candidate_id = auth.uid() or j.employer_id = auth.uid())
+    )
+  );
+
+create or replace function public.record_application_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or old.status is distinct from new.status then
+    insert into public.application_status_history (application_id, from_status, to_status)
+    values (new.id, case when tg_op = 'UPDATE' then old.status end, new.status);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists applications_status_history_trigger on public.applications;
+create trigger applications_status_history_trigger
+  after insert or update of status on public.applications
+  for each row execute function public.record_application_status();
+
+-- Existing applications start their history at the status they have now
+insert into public.application_status_history (application_id, from_status, to_status, changed_at)
+select a.id, null, a.status, a.applied_at
+from public.applications a
+where not exists (
+  select 1 from public.application_status_history h where h.application_id = a.id
+);
+
+revoke select on public.applications from anon, authenticated;
+grant select (
+  id, job_id, candidate_id, applicant_name, applicant_email, applicant_phone,
+  cover_letter, cv_url, screening_answers, status, applied_at, updated_at
+) on public.applications to authenticated;
+
+create or replace function public.employer_application_notes(application_ids uuid[])
+returns table (application_id uuid, employer_notes text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.id, a.employer_notes
+  from public.applications a
+  join public.jobs j on j.id = a.job_id
+  where a.id = any(application_ids)
+    and j.employer_id = auth.uid();
+$$;
+
+grant execute on function public.employer_application_notes(uuid[]) to authenticated;
@@ -0,0 +1,5 @@
+-- Candidates are emailed when an employer moves their application along the
+-- pipeline. They can turn these emails off on /profile.
+
+alter table public.profiles
+  add column if not exists email_application_updates boolean not null default true;
@@ -0,0 +1,54 @@
+-- Candidates can withdraw an application.
+--
+-- A withdrawn application keeps its row (and history) so the employer still
+-- sees it, but it no longer counts towards jobs.application_count. The count
+-- is recomputed from the applications table whenever an application is
+-- added, removed or changes status, which also corrects any drift in the
+-- stored numbers.
+
+alter table public.applications
+  drop constraint if exists applications_status_check;
+alter table public.applications
+  add constraint applications_status_check
+  check (status in ('pending', 'reviewed', 'shortlisted', 'rejected', 'accepted', 'withdrawn'));
+
+create or replace function public.refresh_job_application_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected_job uuid;
+begin
+  for affected_job in
+    select distinct job_id from (
+      select case when tg_op <> 'INSERT' then old.job_id end as job_id
+      union all
+      select case when tg_op <> 'DELETE' then new.job_id end
+    ) changed
+    where job_id is not null
+  loop
+    update public.jobs
+    set application_count = (
+      select count(*)
+      from public.applications
+      where job_id = affected_job and status <> 'withdrawn'
+    )
+    where id = affected_job;
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists applications_count_trigger on public.applications;
+create trigger applications_count_trigger
+  after insert or delete or update of status, job_id on public.applications
+  for each row execute function public.refresh_job_application_count();
+
+update public.jobs j
+set application_count = (
+  select count(*)
+  from public.applications a
+  where a.job_id = j.id and a.status <> 'withdrawn'
+);
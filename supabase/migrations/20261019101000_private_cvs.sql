@@ -0,0 +1,45 @@
+-- CVs are private.
+--
+-- The cvs bucket was public and applications/profiles stored the public URL,
+-- so anyone with a link could download a CV for good. The bucket is now
+-- private and cv_url holds the object's path in the bucket. CVs are viewed
+-- through /api/cvs, which checks the requester is the candidate or the
+-- employer of a job they applied to and returns a short-lived signed URL.
+--
+-- Uploads are named <candidate id>-<timestamp>.<ext>, which is what the
+-- candidate's own storage access is keyed on. Employers never read the
+-- bucket directly.
+
+insert into storage.buckets (id, name, public)
+values ('cvs', 'cvs', false)
+on conflict (id) do update set public = false;
+
+drop policy if exists "Candidates upload their own CVs" on storage.objects;
+create policy "Candidates upload their own CVs"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'cvs' and starts_with(name, auth.uid()::text || '-'));
+
+drop policy if exists "Candidates read their own CVs" on storage.objects;
+create policy "Candidates read their own CVs"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'cvs' and starts_with(name, auth.uid()::text || '-'));
+
+drop policy if exists "Candidates delete their own CVs" on storage.objects;
+create policy "Candidates delete their own CVs"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'cvs' and starts_with(name, auth.uid()::text || '-'));
+
+-- Public URLs -> paths
+update public.applications
+  set cv_url = regexp_replace(cv_url, '^.*/object/public/cvs/', '')
+  where cv_url like '%/object/public/cvs/%';
+
+update public.profiles
+  set cv_url = regexp_replace(cv_url, '^.*/object/public/cvs/', '')
+  where cv_url like '%/object/public/cvs/%';
+
+comment on column public.applications.cv_url is 'Path of the CV in the private cvs storage bucket';
+comment on column public.profiles.cv_url is 'Path of the default CV in the private cvs storage bucket';
@@ -0,0 +1,18 @@
+-- CVs are uploaded to an uploads/ staging folder through signed upload URLs
+-- from /api/cvs/upload-url, then /api/cvs checks the file's contents and
+-- stores it with the service role. Candidates can no longer write to the
+-- bucket directly; they can still read and delete their own files, and
+-- nobody but the service role can read the staging folder.
+--
+-- The bucket's own limits back up the route's checks.
+
+drop policy if exists "Candidates upload their own CVs" on storage.objects;
+
+update storage.buckets
+  set file_size_limit = 5242880,
+      allowed_mime_types = array[
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      ]
+  where id = 'cvs';
@@ -0,0 +1,6 @@
+-- Applications are submitted through POST /api/applications, which validates
+-- the form and the job's screening questions, checks the job is open and
+-- emails the employer. Clients can no longer insert rows directly, so every
+-- application goes through those checks.
+
+revoke insert on public.applications from anon, authenticated;
@@ -0,0 +1,38 @@
+-- Every outgoing email is stored in the outbox before it is sent.
+--
+-- Messages are sent straight away when they're queued; one that fails stays
+-- pending and the email-outbox cron retries it with exponential backoff,
+-- giving up (status 'failed') after a fixed number of attempts. Failed
+-- messages can be resent from the admin delivery log.
+--
+-- A worker takes a message by setting it to 'sending' with next_attempt_at
+-- a few minutes ahead. If the worker dies mid-send the message becomes due
+-- again once that lease runs out.
+--
+-- Only the service role uses this table.
+
+create table if not exists public.email_outbox (
+  id uuid primary key default gen_random_uuid(),
+  to_addresses text[] not null,
+  subject text not null,
+  html text not null,
+  text text,
+  reply_to text,
+  headers jsonb,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists email_outbox_due_idx on public.email_outbox (next_attempt_at)
+  where status in ('pending', 'sending');
+
+create index if not exists email_outbox_created_at_idx on public.email_outbox (created_at desc);
+
+alter table public.email_outbox enable row level security;
+
+revoke all on public.email_outbox from anon, authenticated;